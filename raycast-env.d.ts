@@ -8,20 +8,36 @@
 /* eslint-disable @typescript-eslint/ban-types */
 
 type ExtensionPreferences = {
-  /** Jira Base URL - Your Jira instance base URL (e.g., your-domain.atlassian.net) */
+  /** Jira Base URL - Your Jira site, as a host or a full URL with scheme and context path (e.g., your-domain.atlassian.net or http://jira.internal:8080/jira) */
   "jiraBaseUrl": string,
-  /** Jira Email - Your Jira email address used for authentication */
+  /** Jira Authentication - How to authenticate with Jira. Data Center uses a personal access token and REST API v2. */
+  "jiraAuthMode": "basic" | "bearer",
+  /** Jira Email - Your Jira email address used for authentication (Cloud only) */
   "jiraEmail": string,
-  /** Jira API Token - Your Jira API token (create one at https://id.atlassian.com/manage-profile/security/api-tokens) */
+  /** Jira API Token - Your Jira API token (create one at https://id.atlassian.com/manage-profile/security/api-tokens), or a personal access token on Data Center */
   "jiraApiToken": string,
-  /** Tempo API Token - Your Tempo API token (create one at https://<your-domain>.atlassian.net/plugins/servlet/ac/io.tempo.jira/tempo-app#!/configuration/api-integration) */
+  /** Tempo API Token - Your Tempo API token, not needed when the worklog backend is Jira (create one at https://<your-domain>.atlassian.net/plugins/servlet/ac/io.tempo.jira/tempo-app#!/configuration/api-integration) */
   "tempoApiToken": string,
+  /** Worklog Backend - Where worklogs are stored. Choose Jira for sites without Tempo; work types, accounts and other Tempo features are then hidden. */
+  "worklogBackend": "tempo" | "jira",
+  /** Tempo API Endpoint - Where your Tempo API is hosted. On Data Center, Tempo reuses the Jira personal access token unless Tempo API Token is set. */
+  "tempoRegion": "us" | "eu" | "datacenter" | "custom",
+  /** Custom Tempo API URL - Tempo API base URL used when the endpoint is set to Custom URL (e.g., https://api.tempo.io/4) */
+  "tempoCustomBaseUrl": string,
+  /** Non-Billable Projects - Comma-separated Jira project keys whose time is logged as non-billable by default (e.g., INT, HR) */
+  "nonBillableProjects": string,
   /** Rounding Mode (Timer & Backfill) - Rounding mode for timer and backfill operations */
   "roundingMode": "none" | "up15" | "nearest15" | "down15",
-  /** Backfill Default Week - Default week for backfill operations */
+  /** Backfill Default Week - Default week (or Tempo timesheet period) for backfill operations */
   "backfillDefaultWeek": "this" | "last" | "twoWeeksAgo",
+  /** Week Starts On - First day of the week for backfill and summaries when Tempo has no timesheet periods configured */
+  "weekStartDay": "monday" | "sunday" | "saturday",
   /** Time Input Method - Choose how to input time duration and start time */
   "timeInputMethod": "dropdown" | "text",
+  /** JQL Result Limit - Maximum number of issues loaded from a saved JQL query into the issue dropdown */
+  "jqlResultLimit": "50" | "100" | "200" | "500",
+  /** Issue Picker Grouping - Group the issue dropdowns by parent epic or task, to tell similar sub-tasks apart */
+  "groupIssuesByParent": boolean,
   /** AI Provider (Summaries) - AI provider for generating summaries */
   "aiProvider": "github" | "ollama" | "none",
   /** GitHub Model - GitHub Copilot model ID to use for AI features. Use 'Tempo: View Available AI Models' command to see all supported models. */
@@ -60,6 +76,8 @@ declare namespace Preferences {
   export type StopTimer = ExtensionPreferences & {}
   /** Preferences accessible in the `backfill-week` command */
   export type BackfillWeek = ExtensionPreferences & {}
+  /** Preferences accessible in the `team-week` command */
+  export type TeamWeek = ExtensionPreferences & {}
   /** Preferences accessible in the `browse-github-prs` command */
   export type BrowseGithubPrs = ExtensionPreferences & {}
   /** Preferences accessible in the `ai-summary` command */
@@ -89,6 +107,8 @@ declare namespace Arguments {
   export type StopTimer = {}
   /** Arguments passed to the `backfill-week` command */
   export type BackfillWeek = {}
+  /** Arguments passed to the `team-week` command */
+  export type TeamWeek = {}
   /** Arguments passed to the `browse-github-prs` command */
   export type BrowseGithubPrs = {}
   /** Arguments passed to the `ai-summary` command */
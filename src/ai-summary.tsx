@@ -1,35 +1,51 @@
 import { Action, ActionPanel, Detail, Icon } from "@raycast/api";
 import { useEffect, useState } from "react";
-import { startOfWeek, addDays, format } from "date-fns";
-import { getMyWorklogs } from "./api/tempo";
+import { getMyWorklogsCached } from "./api/tempo";
 import { summarizeWeek } from "./ai/provider";
 import { DayWorklogs } from "./types";
 import { getErrorMessage } from "./utils/error-handling";
+import { sumBillableSeconds } from "./utils/billable";
+import { useRecentPeriods } from "./hooks/useRecentPeriods";
+import { formatPeriodLabel, formatPeriodRange, periodDates } from "./utils/periods";
+
+const SUMMARY_PERIOD_COUNT = 6;
 
 export default function AiSummary() {
   const [text, setText] = useState("Generating AI summary...");
   const [ready, setReady] = useState(false);
-  const [weekLabel, setWeekLabel] = useState("");
+  const [periodIndex, setPeriodIndex] = useState(0);
+  const { periods } = useRecentPeriods(SUMMARY_PERIOD_COUNT);
+  const period = periods[periodIndex];
+  const periodLabel = period ? `${formatPeriodRange(period)} (${formatPeriodLabel(period, periodIndex)})` : "";
 
   useEffect(() => {
+    if (!period) return;
     let mounted = true;
 
     const generate = async () => {
       try {
-        const now = new Date();
-        const from = startOfWeek(now, { weekStartsOn: 0 });
-        const to = addDays(from, 6);
-        setWeekLabel(`${format(from, "MMM d")} - ${format(to, "MMM d, yyyy")} (Week ${format(now, "ww")})`);
+        setReady(false);
+        setText("Generating AI summary...");
+        const fromDate = period.from;
+        const toDate = period.to;
+        const items = await getMyWorklogsCached(fromDate, toDate, {
+          onProgress: (loaded) => {
+            if (mounted) {
+              setText(`Loading worklogs... (${loaded} loaded)`);
+            }
+          },
+        });
+
+        const days: DayWorklogs[] = periodDates(period).map((ds) => ({
+          date: ds,
+          items: items.filter((w) => w.startDate === ds),
+        }));
 
-        const days: DayWorklogs[] = [];
-        for (let i = 0; i < 7; i++) {
-          const d = addDays(from, i);
-          const ds = d.toISOString().substring(0, 10);
-          const items = await getMyWorklogs(ds, ds);
-          days.push({ date: ds, items });
+        if (mounted) {
+          setText("Generating AI summary...");
         }
-        
-        const s = await summarizeWeek(JSON.stringify(days));
+        const { billableSeconds, nonBillableSeconds } = sumBillableSeconds(items);
+        const s = await summarizeWeek(JSON.stringify({ days, totals: { billableSeconds, nonBillableSeconds } }));
         if (mounted) {
           setText(s);
         }
@@ -50,11 +66,11 @@ export default function AiSummary() {
     return () => {
       mounted = false;
     };
-  }, []);
+  }, [period]);
 
-  const markdown = `# 📊 Weekly Summary
+  const markdown = `# 📊 ${period?.source === "tempo" ? "Period" : "Weekly"} Summary
 
-${weekLabel}
+${periodLabel}
 
 ---
 
@@ -78,6 +94,22 @@ ${text}`;
             icon={Icon.Document}
             shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
           />
+          {periodIndex < periods.length - 1 && (
+            <Action
+              title="Previous Period"
+              icon={Icon.ArrowLeft}
+              onAction={() => setPeriodIndex((i) => i + 1)}
+              shortcut={{ modifiers: ["cmd"], key: "[" }}
+            />
+          )}
+          {periodIndex > 0 && (
+            <Action
+              title="Next Period"
+              icon={Icon.ArrowRight}
+              onAction={() => setPeriodIndex((i) => i - 1)}
+              shortcut={{ modifiers: ["cmd"], key: "]" }}
+            />
+          )}
         </ActionPanel>
       }
     />
@@ -1,6 +1,7 @@
 import { TempoWorklog } from "../types";
 import { getAIProvider } from "./provider";
-import { getIssue, getIssueById } from "../api/jira";
+import { getIssue } from "../api/jira";
+import { resolveIssueIds } from "../api/issue-resolver";
 
 export interface WorklogPattern {
   issueKey: string;
@@ -29,28 +30,25 @@ export async function analyzeWorklogPatterns(
   >();
 
   const issueIdToKey = new Map<number, string>();
+  const issueKeyToSummary = new Map<string, string>();
 
   for (const weekLogs of pastWeeks) {
     for (const log of weekLogs) {
       if (log.issue?.key) {
         issueIdToKey.set(log.issue.id, log.issue.key);
-      } else if (!issueIdToKey.has(log.issue.id)) {
-        issueIdToKey.set(log.issue.id, "");
+        if (log.issue.summary) issueKeyToSummary.set(log.issue.key, log.issue.summary);
       }
     }
   }
 
-  const idsNeedingLookup = Array.from(issueIdToKey.entries())
-    .filter(([, key]) => key === "")
-    .map(([id]) => id);
-
-  for (const issueId of idsNeedingLookup) {
-    try {
-      const issue = await getIssueById(issueId);
-      issueIdToKey.set(issueId, issue.key);
-    } catch {
-      issueIdToKey.delete(issueId);
-    }
+  const idsNeedingLookup = pastWeeks
+    .flat()
+    .map((log) => log.issue.id)
+    .filter((id) => !issueIdToKey.has(id));
+  const resolved = await resolveIssueIds(idsNeedingLookup);
+  for (const issue of resolved.values()) {
+    issueIdToKey.set(issue.id, issue.key);
+    issueKeyToSummary.set(issue.key, issue.summary);
   }
 
   for (const weekLogs of pastWeeks) {
@@ -139,13 +137,15 @@ Return ONLY the JSON array, no other text.`;
       suggestions.map(
         async (s: { issueKey: string; estimatedDuration: BigInteger; confidence: string; reasoning: string }) => {
           const stats = issueStats.get(s.issueKey);
-          let summary = "";
-
-          try {
-            const issue = await getIssue(s.issueKey);
-            summary = issue.fields.summary;
-          } catch {
-            summary = s.issueKey;
+          let summary = issueKeyToSummary.get(s.issueKey) ?? "";
+
+          if (!summary) {
+            try {
+              const issue = await getIssue(s.issueKey);
+              summary = issue.fields.summary;
+            } catch {
+              summary = s.issueKey;
+            }
           }
 
           return {
@@ -169,12 +169,14 @@ Return ONLY the JSON array, no other text.`;
 
     const fallbackPatterns: WorklogPattern[] = await Promise.all(
       topIssues.map(async ([key, stats]) => {
-        let summary = key;
-        try {
-          const issue = await getIssue(key);
-          summary = issue.fields.summary;
-        } catch {
-          // Use key as summary if fetch fails
+        let summary = issueKeyToSummary.get(key) ?? key;
+        if (!issueKeyToSummary.has(key)) {
+          try {
+            const issue = await getIssue(key);
+            summary = issue.fields.summary;
+          } catch {
+            // Use key as summary if fetch fails
+          }
         }
 
         return {
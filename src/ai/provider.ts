@@ -182,7 +182,8 @@ async function summarizeGitHubModels(p: Prefs, dataJson: string): Promise<string
           role: "system",
           content:
             "Summarize the following Tempo worklogs into a concise weekly report with bullet points grouped by issue or project, " +
-            "include total hours per group and overall total. Keep under 220 words.",
+            "include total hours per group and overall total, and report billable vs non-billable hours from the totals. " +
+            "Keep under 220 words.",
         },
         { role: "user", content: dataJson },
       ],
@@ -225,7 +226,8 @@ async function summarizeOllama(p: Prefs, dataJson: string): Promise<string> {
   const model = p.ollamaModel || "llama3.1:8b";
   const prompt =
     "Summarize the following Tempo worklogs into a concise weekly report with bullet points grouped by issue or project, " +
-    "include total hours per group and overall total. Keep under 220 words. Data: " +
+    "include total hours per group and overall total, and report billable vs non-billable hours from the totals. " +
+    "Keep under 220 words. Data: " +
     dataJson;
 
   const res = await fetch(host + "/api/generate", {
@@ -242,22 +244,28 @@ async function summarizeOllama(p: Prefs, dataJson: string): Promise<string> {
 
 function fallbackSummary(dataJson: string): string {
   try {
-    const data = JSON.parse(dataJson) as Array<{
-      date: string;
-      items: Array<{
-        timeSpentSeconds: number;
-        issue?: unknown;
-        description?: string;
+    const data = JSON.parse(dataJson) as {
+      days: Array<{
+        date: string;
+        items: Array<{
+          timeSpentSeconds: number;
+          issue?: unknown;
+          description?: string;
+        }>;
       }>;
-    }>;
+      totals?: { billableSeconds: number; nonBillableSeconds: number };
+    };
     let total = 0;
-    for (const d of data) {
+    for (const d of data.days) {
       for (const i of d.items) {
         total += i.timeSpentSeconds || 0;
       }
     }
     const hours = (total / 3600).toFixed(2);
-    return `Weekly total: ${hours}h across ${data.length} day(s). (Configure AI provider for detailed bullets.)`;
+    const billable = data.totals
+      ? ` (${(data.totals.billableSeconds / 3600).toFixed(2)}h billable, ${(data.totals.nonBillableSeconds / 3600).toFixed(2)}h non-billable)`
+      : "";
+    return `Weekly total: ${hours}h${billable} across ${data.days.length} day(s). (Configure AI provider for detailed bullets.)`;
   } catch {
     return "(Set AI provider in preferences to generate summaries)";
   }
@@ -1,4 +1,5 @@
 import { getGitHubPAT } from "../auth/github-oauth";
+import { HttpError, httpRequest, type HttpRequestInit } from "./http";
 
 export interface GitHubPR {
   number: number;
@@ -33,7 +34,7 @@ export interface GitHubCommit {
   html_url: string;
 }
 
-async function githubFetch<T>(endpoint: string, init?: RequestInit): Promise<T> {
+async function githubFetch<T>(endpoint: string, init?: HttpRequestInit): Promise<T> {
   const token = await getGitHubPAT();
   if (!token) {
     throw new Error("GitHub Personal Access Token required. Please run 'Authorize GitHub PAT' command first.");
@@ -41,25 +42,26 @@ async function githubFetch<T>(endpoint: string, init?: RequestInit): Promise<T>
 
   console.log(`[GitHub API] Fetching: ${endpoint}`);
 
-  const response = await fetch(`https://api.github.com${endpoint}`, {
-    ...init,
-    headers: {
-      Authorization: `token ${token}`,
-      Accept: "application/vnd.github+json",
-      "X-GitHub-Api-Version": "2022-11-28",
-      ...init?.headers,
-    },
-  });
-
-  console.log(`[GitHub API] Response status: ${response.status} ${response.statusText}`);
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error(`[GitHub API] Error response: ${errorText}`);
-    throw new Error(`GitHub API error: ${response.status} ${response.statusText} - ${errorText}`);
+  try {
+    const response = await httpRequest("GitHub", `https://api.github.com${endpoint}`, {
+      ...init,
+      headers: {
+        Authorization: `token ${token}`,
+        Accept: "application/vnd.github+json",
+        "X-GitHub-Api-Version": "2022-11-28",
+        ...init?.headers,
+      },
+    });
+
+    console.log(`[GitHub API] Response status: ${response.status} ${response.statusText}`);
+
+    return (await response.json()) as T;
+  } catch (error) {
+    if (error instanceof HttpError) {
+      console.error(`[GitHub API] Error response: ${error.body}`);
+    }
+    throw error;
   }
-
-  return await response.json();
 }
 
 /**
@@ -81,7 +83,7 @@ export async function checkTokenScopes(): Promise<string[]> {
     return [];
   }
 
-  const response = await fetch("https://api.github.com/user", {
+  const response = await httpRequest("GitHub", "https://api.github.com/user", {
     headers: {
       Authorization: `token ${token}`,
       Accept: "application/vnd.github+json",
@@ -0,0 +1,149 @@
+import fetch from "cross-fetch";
+
+/*
+ * Shared HTTP layer for the Tempo, Jira and GitHub clients: per-request timeouts, retries with
+ * exponential backoff for transient failures, and typed errors.
+ */
+
+export interface HttpRequestInit extends Omit<RequestInit, "signal"> {
+  /** Abort the attempt after this many milliseconds (default 30s) */
+  timeoutMs?: number;
+  /** Retries after the first attempt for transient failures (default 3) */
+  retries?: number;
+  /** Treat a non-idempotent method (e.g. a read-only POST search) as safe to retry */
+  idempotent?: boolean;
+}
+
+export class HttpError extends Error {
+  constructor(
+    readonly service: string,
+    readonly url: string,
+    readonly status: number,
+    readonly statusText: string,
+    readonly body: string,
+    /** Set for rate limits sent with another status, like GitHub's 403 with no requests remaining */
+    readonly rateLimited = false,
+  ) {
+    super(`${service} API error: ${status} ${statusText}${body ? ` – ${body.slice(0, 300)}` : ""}`);
+    this.name = "HttpError";
+  }
+
+  /** Rate limits and server-side failures that may succeed if the request is sent again */
+  get isTransient(): boolean {
+    return this.rateLimited || this.status === 429 || this.status >= 500;
+  }
+}
+
+export class TimeoutError extends Error {
+  constructor(
+    readonly service: string,
+    readonly url: string,
+    readonly timeoutMs: number,
+  ) {
+    super(`${service} request timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = "TimeoutError";
+  }
+}
+
+export class NetworkError extends Error {
+  constructor(
+    readonly service: string,
+    readonly url: string,
+    readonly cause: unknown,
+  ) {
+    super(`Could not reach ${service}: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = "NetworkError";
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_RETRIES = 3;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 10_000;
+/** Don't keep a command waiting on a rate limit longer than this; fail and let the user retry */
+const MAX_RATE_LIMIT_WAIT_MS = 60_000;
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function backoffDelay(attempt: number): number {
+  const exponential = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+/** 429, or a 403 that carries rate-limit headers (GitHub's primary rate limit) */
+function isRateLimited(res: Response): boolean {
+  if (res.status === 429) return true;
+  return res.status === 403 && (res.headers.get("X-RateLimit-Remaining") === "0" || res.headers.has("Retry-After"));
+}
+
+/** Wait requested by the server through Retry-After or rate-limit reset headers, in milliseconds */
+function serverRequestedDelay(headers: Headers): number | undefined {
+  const retryAfter = headers.get("Retry-After");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  const remaining = headers.get("X-RateLimit-Remaining");
+  const reset = headers.get("X-RateLimit-Reset");
+  if (remaining === "0" && reset) {
+    const resetSeconds = Number(reset);
+    // GitHub sends an epoch timestamp, other services a number of seconds until the reset
+    if (!Number.isNaN(resetSeconds)) {
+      return resetSeconds > 1e9 ? Math.max(0, resetSeconds * 1000 - Date.now()) : resetSeconds * 1000;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Send a request and return the successful response. Failures are thrown as HttpError, TimeoutError or
+ * NetworkError. Rate-limited requests are always retried since the server didn't process
+ * them; other transient failures are only retried for idempotent requests.
+ */
+export async function httpRequest(service: string, url: string, init: HttpRequestInit = {}): Promise<Response> {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES, idempotent, ...requestInit } = init;
+  const method = (requestInit.method ?? "GET").toUpperCase();
+  const canRetry = idempotent ?? IDEMPOTENT_METHODS.has(method);
+
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    let error: Error;
+    let delay: number | undefined;
+    try {
+      const res = await fetch(url, { ...requestInit, signal: controller.signal });
+      if (res.ok) return res;
+
+      const body = await res.text().catch(() => "");
+      const rateLimited = isRateLimited(res);
+      error = new HttpError(service, url, res.status, res.statusText, body, rateLimited);
+      if (!rateLimited && (!RETRYABLE_STATUSES.has(res.status) || !canRetry)) throw error;
+      delay = serverRequestedDelay(res.headers);
+    } catch (e) {
+      if (e instanceof HttpError) throw e;
+      error = timedOut ? new TimeoutError(service, url, timeoutMs) : new NetworkError(service, url, e);
+      if (!canRetry) throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const wait = delay ?? backoffDelay(attempt);
+    if (attempt >= retries || wait > MAX_RATE_LIMIT_WAIT_MS) throw error;
+
+    console.warn(`[${service} API] ${error.message}; retrying in ${Math.round(wait)}ms`);
+    await sleep(wait);
+  }
+}
@@ -0,0 +1,97 @@
+import { LocalStorage } from "@raycast/api";
+import type { JiraIssue } from "../types";
+
+const ISSUE_CACHE_KEY = "jira.issues.cache.v1";
+const MAX_CACHED_ISSUES = 500;
+
+/** How long cached summaries, types and statuses are trusted before asking Jira again */
+export const ISSUE_CACHE_TTL_MS = 1000 * 60 * 60 * 24;
+
+export interface CachedIssue {
+  issue: JiraIssue;
+  /** Last time any field was written; the least recently written issues are dropped first */
+  cachedAt: number;
+  /**
+   * When each field was last loaded from Jira. A field listed here but missing from `issue.fields` is
+   * empty on the issue.
+   */
+  fieldsCachedAt?: Record<string, number>;
+}
+
+type IssueCache = Record<string, CachedIssue>;
+
+async function readCache(): Promise<IssueCache> {
+  const raw = await LocalStorage.getItem<string>(ISSUE_CACHE_KEY);
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw) as IssueCache;
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Whether every one of `fieldNames` was loaded within `maxAgeMs`, so the cached issue can stand in for a
+ * fresh lookup of those fields
+ */
+export function hasFreshIssueFields(entry: CachedIssue, fieldNames: string[], maxAgeMs = ISSUE_CACHE_TTL_MS): boolean {
+  const now = Date.now();
+  return fieldNames.every((name) => {
+    const loadedAt = entry.fieldsCachedAt?.[name];
+    return loadedAt !== undefined && now - loadedAt < maxAgeMs;
+  });
+}
+
+/** Cached issue for this key, however old */
+export async function readCachedIssue(key: string): Promise<CachedIssue | undefined> {
+  return (await readCache())[key.toUpperCase()];
+}
+
+/** Cached issues for these ids, however old; ids not in the cache are left out */
+export async function readCachedIssuesById(ids: Array<number | string>): Promise<Map<string, CachedIssue>> {
+  const wanted = new Set(ids.map(String));
+  const result = new Map<string, CachedIssue>();
+  for (const entry of Object.values(await readCache())) {
+    if (wanted.has(entry.issue.id)) result.set(entry.issue.id, entry);
+  }
+  return result;
+}
+
+// Searches run side by side, so writes are queued to keep one from overwriting another's read-modify-write
+let pendingWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Remember issues from a search or lookup that asked Jira for `fieldNames`. Fields the response didn't
+ * include (e.g. a summary-only search) keep their cached values and load times; the least recently cached
+ * issues are dropped once the cache is full.
+ */
+export function cacheIssues(issues: JiraIssue[], fieldNames: string[]): Promise<void> {
+  if (issues.length === 0) return Promise.resolve();
+
+  const write = pendingWrite.then(async () => {
+    const cache = await readCache();
+    const now = Date.now();
+    for (const issue of issues) {
+      if (!issue?.key || !issue.id) continue;
+      const existing = cache[issue.key];
+      const fields = Object.fromEntries(Object.entries(issue.fields ?? {}).filter(([, v]) => v !== undefined));
+      cache[issue.key] = {
+        issue: {
+          id: issue.id,
+          key: issue.key,
+          fields: { ...existing?.issue.fields, ...fields } as JiraIssue["fields"],
+        },
+        cachedAt: now,
+        fieldsCachedAt: { ...existing?.fieldsCachedAt, ...Object.fromEntries(fieldNames.map((name) => [name, now])) },
+      };
+    }
+
+    const kept = Object.entries(cache)
+      .sort(([, a], [, b]) => b.cachedAt - a.cachedAt)
+      .slice(0, MAX_CACHED_ISSUES);
+    await LocalStorage.setItem(ISSUE_CACHE_KEY, JSON.stringify(Object.fromEntries(kept)));
+  });
+  pendingWrite = write.catch(() => undefined);
+  return write;
+}
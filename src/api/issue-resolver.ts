@@ -0,0 +1,67 @@
+import type { JiraIssue, TempoWorklog } from "../types";
+import { searchIssues } from "./jira";
+import { hasFreshIssueFields, readCachedIssuesById } from "./issue-cache";
+
+/** What the lists and summaries need to know about an issue Tempo only refers to by id */
+export interface ResolvedIssue {
+  id: number;
+  key: string;
+  summary: string;
+  projectKey?: string;
+}
+
+/** Jira rejects very long JQL, so ids are looked up in chunks */
+const ID_BATCH_SIZE = 100;
+
+const toResolvedIssue = (issue: JiraIssue): ResolvedIssue => ({
+  id: Number(issue.id),
+  key: issue.key,
+  summary: issue.fields.summary,
+  projectKey: issue.fields.project?.key,
+});
+
+/**
+ * Key, summary and project for each id, from the issue cache where fresh and otherwise looked up with one
+ * `id in (...)` search per batch. Ids Jira doesn't return (deleted or not visible) are left out.
+ */
+export async function resolveIssueIds(ids: number[]): Promise<Map<number, ResolvedIssue>> {
+  const unique = Array.from(new Set(ids.filter((id) => Number.isFinite(id) && id > 0)));
+  const cached = await readCachedIssuesById(unique);
+
+  const result = new Map<number, ResolvedIssue>();
+  for (const entry of cached.values()) {
+    if (hasFreshIssueFields(entry, ["summary"])) result.set(Number(entry.issue.id), toResolvedIssue(entry.issue));
+  }
+
+  const missing = unique.filter((id) => !result.has(id));
+  for (let i = 0; i < missing.length; i += ID_BATCH_SIZE) {
+    const batch = missing.slice(i, i + ID_BATCH_SIZE);
+    const issues = await searchIssues(`id in (${batch.join(",")})`, ["summary", "project"], batch.length).catch(
+      () => [] as JiraIssue[],
+    );
+    for (const issue of issues) {
+      result.set(Number(issue.id), toResolvedIssue(issue));
+    }
+  }
+
+  // Jira unreachable: fall back to whatever the cache still has
+  for (const id of missing) {
+    const stale = cached.get(String(id));
+    if (!result.has(id) && stale) result.set(id, toResolvedIssue(stale.issue));
+  }
+
+  return result;
+}
+
+/** Fill in `issue.key` and `issue.summary` on worklogs that only carry the issue id */
+export async function resolveWorklogIssues(worklogs: TempoWorklog[]): Promise<TempoWorklog[]> {
+  const ids = worklogs.filter((w) => !w.issue.key || !w.issue.summary).map((w) => w.issue.id);
+  if (ids.length === 0) return worklogs;
+
+  const issues = await resolveIssueIds(ids);
+  return worklogs.map((w) => {
+    const issue = issues.get(w.issue.id);
+    if (!issue) return w;
+    return { ...w, issue: { ...w.issue, key: w.issue.key ?? issue.key, summary: issue.summary } };
+  });
+}
@@ -0,0 +1,153 @@
+import { format } from "date-fns";
+import { z } from "zod";
+import type { TempoWorklog } from "../types";
+import { isJiraDataCenter, jiraApiPath, jiraFetch, searchIssues } from "./jira";
+import { jiraAccountId } from "./tempo-client";
+import type { WorklogParams } from "./tempo";
+import type { WorklogBackend } from "./worklog-backend";
+
+/*
+ * Worklog backend for Jira sites without Tempo. Jira worklogs are mapped into the Tempo worklog shape so
+ * the rest of the extension can stay backend-agnostic; the Jira worklog id stands in for the Tempo id.
+ */
+
+const jiraWorklogSchema = z.object({
+  self: z.string().optional(),
+  id: z.string(),
+  issueId: z.string(),
+  // Cloud identifies users by account id, Data Center by user key
+  author: z.object({ accountId: z.string().optional(), key: z.string().optional() }).optional(),
+  comment: z.unknown().optional(),
+  started: z.string(),
+  timeSpentSeconds: z.number(),
+  created: z.string().optional(),
+  updated: z.string().optional(),
+});
+
+const issueWorklogPageSchema = z.object({
+  worklogs: z.array(jiraWorklogSchema),
+  startAt: z.number(),
+  total: z.number(),
+});
+
+type JiraWorklog = z.infer<typeof jiraWorklogSchema>;
+
+/** Plain text of an Atlassian Document Format comment */
+function adfToText(node: unknown): string | undefined {
+  if (typeof node === "string") return node || undefined;
+
+  const parts: string[] = [];
+  const walk = (n: unknown) => {
+    if (!n || typeof n !== "object") return;
+    const { type, text, content } = n as { type?: string; text?: unknown; content?: unknown };
+    if (typeof text === "string") parts.push(text);
+    if (Array.isArray(content)) content.forEach(walk);
+    if (type === "paragraph") parts.push("\n");
+  };
+  walk(node);
+
+  return parts.join("").trim() || undefined;
+}
+
+/** Cloud (REST v3) takes comments as ADF documents, Data Center (REST v2) as plain text */
+function toJiraComment(text: string) {
+  if (isJiraDataCenter()) return text;
+  return {
+    type: "doc",
+    version: 1,
+    content: [{ type: "paragraph", content: [{ type: "text", text }] }],
+  };
+}
+
+const authorId = (wl: JiraWorklog) => wl.author?.accountId ?? wl.author?.key;
+
+function toTempoWorklog(wl: JiraWorklog): TempoWorklog {
+  const author = authorId(wl);
+  return {
+    self: wl.self,
+    tempoWorklogId: Number(wl.id),
+    jiraWorklogId: Number(wl.id),
+    issue: { id: Number(wl.issueId) },
+    timeSpentSeconds: wl.timeSpentSeconds,
+    // Jira reports `started` in the author's offset, so the local date and time can be read off directly
+    startDate: wl.started.substring(0, 10),
+    startTime: wl.started.substring(11, 19),
+    description: adfToText(wl.comment),
+    createdAt: wl.created,
+    updatedAt: wl.updated,
+    author: author ? { accountId: author } : undefined,
+  };
+}
+
+function buildJiraWorklogBody(params: WorklogParams) {
+  const started = new Date(`${params.startDate}T${params.startTime ?? "09:00:00"}`);
+  return {
+    timeSpentSeconds: params.timeSpentSeconds,
+    started: format(started, "yyyy-MM-dd'T'HH:mm:ss.SSSxx"),
+    ...(params.description ? { comment: toJiraComment(params.description) } : {}),
+  };
+}
+
+/** Query string telling Jira how to adjust the issue's remaining estimate */
+function estimateQuery(params: WorklogParams): string {
+  if (params.remainingEstimateSeconds === undefined) return "?adjustEstimate=auto";
+  return `?adjustEstimate=new&newEstimate=${Math.round(params.remainingEstimateSeconds / 60)}m`;
+}
+
+export const jiraWorklogBackend: WorklogBackend = {
+  id: "jira",
+
+  async createWorklog(params) {
+    const res = await jiraFetch(
+      jiraApiPath(`/issue/${encodeURIComponent(params.issueId)}/worklog${estimateQuery(params)}`),
+      { method: "POST", body: JSON.stringify(buildJiraWorklogBody(params)) },
+    );
+    return toTempoWorklog(jiraWorklogSchema.parse(await res.json()));
+  },
+
+  async updateWorklog(worklog, params) {
+    const res = await jiraFetch(
+      jiraApiPath(
+        `/issue/${encodeURIComponent(params.issueId)}/worklog/${worklog.tempoWorklogId}${estimateQuery(params)}`,
+      ),
+      { method: "PUT", body: JSON.stringify(buildJiraWorklogBody(params)) },
+    );
+    return toTempoWorklog(jiraWorklogSchema.parse(await res.json()));
+  },
+
+  async deleteWorklog(worklog) {
+    await jiraFetch(jiraApiPath(`/issue/${worklog.issue.id}/worklog/${worklog.tempoWorklogId}`), { method: "DELETE" });
+  },
+
+  /**
+   * Jira has no per-author worklog search, so find the issues the current user logged time on in the range
+   * and read each issue's worklogs, keeping the user's entries that start in the range
+   */
+  async *iterateMyWorklogs(from, to) {
+    const accountId = await jiraAccountId();
+    const issues = await searchIssues(
+      `worklogAuthor = currentUser() AND worklogDate >= "${from}" AND worklogDate <= "${to}"`,
+      ["summary"],
+      Infinity,
+    );
+
+    for (const issue of issues) {
+      const worklogs: JiraWorklog[] = [];
+      let total = Infinity;
+      while (worklogs.length < total) {
+        const res = await jiraFetch(
+          jiraApiPath(`/issue/${encodeURIComponent(issue.id)}/worklog?startAt=${worklogs.length}&maxResults=5000`),
+        );
+        const page = issueWorklogPageSchema.parse(await res.json());
+        if (page.worklogs.length === 0) break;
+        worklogs.push(...page.worklogs);
+        total = page.total;
+      }
+
+      yield worklogs
+        .filter((wl) => authorId(wl) === accountId)
+        .map(toTempoWorklog)
+        .filter((wl) => wl.startDate >= from && wl.startDate <= to);
+    }
+  },
+};
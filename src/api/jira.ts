@@ -1,58 +1,235 @@
-import fetch from "cross-fetch";
 import { getPreferenceValues } from "@raycast/api";
 import { z } from "zod";
 import type { JiraIssue } from "../types";
+import { httpRequest, type HttpRequestInit } from "./http";
+import { cacheIssues, hasFreshIssueFields, readCachedIssue } from "./issue-cache";
+
+export type JiraAuthMode = "basic" | "bearer";
 
 interface Prefs {
   jiraBaseUrl: string;
-  jiraEmail: string;
+  jiraEmail?: string;
   jiraApiToken: string;
+  jiraAuthMode?: JiraAuthMode;
+  tempoRegion?: string;
+  jqlResultLimit?: string;
+}
+
+/** The configured site as a full URL: a bare host gets https://, a context path and http:// are kept */
+export function getJiraBaseUrl(): string {
+  const { jiraBaseUrl } = getPreferenceValues<Prefs>();
+  const trimmed = jiraBaseUrl.trim().replace(/\/+$/, "");
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+}
+
+export function getJiraAuthMode(): JiraAuthMode {
+  const { jiraAuthMode } = getPreferenceValues<Prefs>();
+  return jiraAuthMode === "bearer" ? "bearer" : "basic";
+}
+
+/** Server and Data Center only speak REST API v2; they're detected by PAT auth or the Tempo endpoint */
+export function isJiraDataCenter(): boolean {
+  const { tempoRegion } = getPreferenceValues<Prefs>();
+  return getJiraAuthMode() === "bearer" || tempoRegion === "datacenter";
+}
+
+/** `/rest/api/{2|3}` followed by `path` */
+export function jiraApiPath(path: string): string {
+  return `/rest/api/${isJiraDataCenter() ? "2" : "3"}${path}`;
 }
 
 function jiraHeaders() {
   const { jiraEmail, jiraApiToken } = getPreferenceValues<Prefs>();
-  const auth = Buffer.from(`${jiraEmail}:${jiraApiToken}`).toString("base64");
+  let authorization: string;
+  if (getJiraAuthMode() === "bearer") {
+    authorization = `Bearer ${jiraApiToken}`;
+  } else {
+    if (!jiraEmail) {
+      throw new Error("Jira email is not configured in preferences");
+    }
+    authorization = `Basic ${Buffer.from(`${jiraEmail}:${jiraApiToken}`).toString("base64")}`;
+  }
   return {
-    Authorization: `Basic ${auth}`,
+    Authorization: authorization,
     Accept: "application/json",
     "Content-Type": "application/json",
   };
 }
 
-async function jiraFetch(path: string, init?: RequestInit): Promise<Response> {
-  const { jiraBaseUrl } = getPreferenceValues<Prefs>();
-  const url = `https://${jiraBaseUrl}${path}`;
-  const res = await fetch(url, {
+export async function jiraFetch(path: string, init?: HttpRequestInit): Promise<Response> {
+  return httpRequest("Jira", `${getJiraBaseUrl()}${path}`, {
     ...init,
     headers: { ...jiraHeaders(), ...init?.headers },
   });
+}
+
+const SEARCH_PAGE_SIZE = 100;
+
+/**
+ * Fields the issue pickers show (type, status, assignee, priority and parent next to the summary), plus the
+ * project the account picker needs, so an issue picked from a search can be looked up from the cache
+ */
+const ISSUE_DETAIL_FIELDS = ["summary", "issuetype", "status", "assignee", "priority", "parent", "project"];
+
+/** How many issues a JQL search loads at most, from the JQL Result Limit preference */
+export function getJqlResultLimit(): number {
+  const { jqlResultLimit } = getPreferenceValues<Prefs>();
+  const limit = parseInt(jqlResultLimit || "200", 10);
+  return Number.isFinite(limit) && limit > 0 ? limit : 200;
+}
+
+const searchPageSchema = z.object({
+  issues: z.array(z.any()),
+  nextPageToken: z.string().optional(),
+  total: z.number().optional(),
+});
+
+/** Page through a JQL search until `limit` issues are loaded or Jira runs out of results */
+export async function searchIssues(
+  jql: string,
+  fields: string[] = ISSUE_DETAIL_FIELDS,
+  limit = getJqlResultLimit(),
+): Promise<JiraIssue[]> {
+  // Data Center has no enhanced search endpoint, so it pages by offset instead of token
+  const dataCenter = isJiraDataCenter();
+  const issues: JiraIssue[] = [];
+  let nextPageToken: string | undefined;
 
-  if (!res.ok) {
-    throw new Error(`Jira API error: ${res.status} ${res.statusText}`);
+  while (issues.length < limit) {
+    const maxResults = Math.min(SEARCH_PAGE_SIZE, limit - issues.length);
+    const params = new URLSearchParams({ jql, maxResults: String(maxResults), fields: fields.join(",") });
+    if (dataCenter) params.set("startAt", String(issues.length));
+    else if (nextPageToken) params.set("nextPageToken", nextPageToken);
+
+    const res = await jiraFetch(jiraApiPath(`${dataCenter ? "/search" : "/search/jql"}?${params}`));
+    const page = searchPageSchema.parse(await res.json());
+    issues.push(...(page.issues as JiraIssue[]));
+
+    if (page.issues.length === 0) break;
+    if (dataCenter) {
+      if (page.total === undefined || issues.length >= page.total) break;
+    } else {
+      if (!page.nextPageToken) break;
+      nextPageToken = page.nextPageToken;
+    }
   }
 
-  return res;
+  const result = issues.slice(0, limit);
+  await cacheIssues(result, fields);
+  return result;
+}
+
+/** Number of issues matching `jql`, not capped by the result limit. Jira Cloud only returns an approximation */
+export async function countIssues(jql: string): Promise<number> {
+  if (isJiraDataCenter()) {
+    const res = await jiraFetch(jiraApiPath(`/search?jql=${encodeURIComponent(jql)}&maxResults=0`));
+    return z.object({ total: z.number() }).parse(await res.json()).total;
+  }
+  const res = await jiraFetch(jiraApiPath("/search/approximate-count"), {
+    method: "POST",
+    idempotent: true,
+    body: JSON.stringify({ jql }),
+  });
+  return z.object({ count: z.number() }).parse(await res.json()).count;
 }
 
-export async function searchIssues(jql: string): Promise<JiraIssue[]> {
-  const res = await jiraFetch(`/rest/api/3/search/jql?jql=${encodeURIComponent(jql)}&maxResults=50&fields=summary`);
-  const schema = z.object({ issues: z.array(z.any()) });
-  const json = schema.parse(await res.json());
-  return json.issues as JiraIssue[];
+/** Keys suggested by Jira's issue picker (key matches and recently viewed issues first) */
+async function pickIssueKeys(query: string): Promise<string[]> {
+  const res = await jiraFetch(jiraApiPath(`/issue/picker?query=${encodeURIComponent(query)}&showSubTasks=true`));
+  const schema = z.object({
+    sections: z.array(z.object({ issues: z.array(z.object({ key: z.string() })) })),
+  });
+  const keys = schema.parse(await res.json()).sections.flatMap((s) => s.issues.map((i) => i.key));
+  return Array.from(new Set(keys));
 }
 
+/**
+ * Issues matching free text, with their picker details: the issue picker's suggestions first, then issues whose
+ * summary matches `summary ~ "text*"`. Either source failing (e.g. text JQL can't parse) just drops its results.
+ */
+export async function searchIssuesByText(text: string, limit = 20): Promise<JiraIssue[]> {
+  const query = text.trim();
+  if (!query) return [];
+
+  const escaped = query.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+  const [pickerKeys, summaryMatches] = await Promise.all([
+    pickIssueKeys(query).catch(() => [] as string[]),
+    searchIssues(`summary ~ "${escaped}*" ORDER BY updated DESC`, ISSUE_DETAIL_FIELDS, limit).catch(
+      () => [] as JiraIssue[],
+    ),
+  ]);
+
+  const missingKeys = pickerKeys.filter((key) => !summaryMatches.some((i) => i.key === key));
+  const pickedIssues =
+    missingKeys.length > 0
+      ? await searchIssues(`key in (${missingKeys.join(",")})`, ISSUE_DETAIL_FIELDS, missingKeys.length).catch(
+          () => [] as JiraIssue[],
+        )
+      : [];
+
+  const byKey = new Map([...pickedIssues, ...summaryMatches].map((i) => [i.key, i]));
+  const orderedKeys = Array.from(new Set([...pickerKeys, ...summaryMatches.map((i) => i.key)]));
+  return orderedKeys
+    .map((key) => byKey.get(key))
+    .filter((i): i is JiraIssue => i !== undefined)
+    .slice(0, limit);
+}
+
+/** Issue ids never change, so any cached id is used without asking Jira */
 export async function getIssueIdFromKey(key: string): Promise<string> {
-  const res = await jiraFetch(`/rest/api/3/issue/${encodeURIComponent(key)}?fields=summary`);
-  const json = (await res.json()) as JiraIssue;
-  return json.id;
+  const cached = await readCachedIssue(key);
+  if (cached) return cached.issue.id;
+  return (await getIssue(key)).id;
 }
 
+/**
+ * Served from the issue cache while every detail field was loaded recently; an issue cached from a
+ * summary-only search isn't enough, e.g. the account picker needs the project. A stale cached copy is
+ * used when Jira can't be reached.
+ */
 export async function getIssue(key: string): Promise<JiraIssue> {
-  const res = await jiraFetch(`/rest/api/3/issue/${encodeURIComponent(key)}?fields=summary,issuetype,project`);
-  return (await res.json()) as JiraIssue;
+  const cached = await readCachedIssue(key);
+  if (cached && hasFreshIssueFields(cached, ISSUE_DETAIL_FIELDS)) return cached.issue;
+
+  try {
+    const res = await jiraFetch(
+      jiraApiPath(`/issue/${encodeURIComponent(key)}?fields=${ISSUE_DETAIL_FIELDS.join(",")}`),
+    );
+    const issue = (await res.json()) as JiraIssue;
+    await cacheIssues([issue], ISSUE_DETAIL_FIELDS);
+    return issue;
+  } catch (e) {
+    if (cached) return cached.issue;
+    throw e;
+  }
+}
+
+export interface IssueTimeTracking {
+  originalEstimateSeconds?: number;
+  remainingEstimateSeconds?: number;
+  timeSpentSeconds?: number;
+}
+
+export async function getIssueTimeTracking(key: string): Promise<IssueTimeTracking> {
+  const res = await jiraFetch(jiraApiPath(`/issue/${encodeURIComponent(key)}?fields=timetracking`));
+  const schema = z.object({
+    fields: z.object({
+      timetracking: z
+        .object({
+          originalEstimateSeconds: z.number().optional(),
+          remainingEstimateSeconds: z.number().optional(),
+          timeSpentSeconds: z.number().optional(),
+        })
+        .nullish(),
+    }),
+  });
+  return schema.parse(await res.json()).fields.timetracking ?? {};
 }
 
-export async function getIssueById(id: number): Promise<JiraIssue> {
-  const res = await jiraFetch(`/rest/api/3/issue/${id}?fields=summary,issuetype,project`);
-  return (await res.json()) as JiraIssue;
+/** Display name for an Atlassian account id (Cloud) or user key (Data Center) */
+export async function getUserDisplayName(accountId: string): Promise<string> {
+  const param = isJiraDataCenter() ? "key" : "accountId";
+  const res = await jiraFetch(jiraApiPath(`/user?${param}=${encodeURIComponent(accountId)}`));
+  const json = z.object({ displayName: z.string().optional() }).parse(await res.json());
+  return json.displayName || accountId;
 }
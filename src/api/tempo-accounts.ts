@@ -0,0 +1,67 @@
+import { z } from "zod";
+import { fetchAllPages } from "./tempo-client";
+import { isTempoBackend } from "./worklog-backend";
+
+export interface TempoAccount {
+  id: number;
+  key: string;
+  name: string;
+  status?: string;
+}
+
+export interface ProjectAccounts {
+  accounts: TempoAccount[];
+  defaultAccountKey?: string;
+}
+
+const accountSchema = z.object({
+  id: z.number(),
+  key: z.string(),
+  name: z.string(),
+  status: z.string().optional(),
+});
+
+const accountLinkSchema = z.object({
+  default: z.boolean().optional(),
+  account: z.object({
+    id: z.number().optional(),
+    key: z.string().optional(),
+    self: z.string().optional(),
+  }),
+});
+
+let cachedAccounts: TempoAccount[] | null = null;
+
+export async function getAccounts(): Promise<TempoAccount[]> {
+  if (cachedAccounts) return cachedAccounts;
+  cachedAccounts = await fetchAllPages(`/accounts`, accountSchema);
+  return cachedAccounts;
+}
+
+/** Open accounts linked to a Jira project, plus the project's default account if one is set */
+export async function getAccountsForProject(projectId: string): Promise<ProjectAccounts> {
+  if (!isTempoBackend()) return { accounts: [] };
+  const [links, accounts] = await Promise.all([
+    fetchAllPages(`/account-links/project/${encodeURIComponent(projectId)}`, accountLinkSchema),
+    getAccounts(),
+  ]);
+
+  const findAccount = (link: z.infer<typeof accountLinkSchema>) =>
+    accounts.find(
+      (a) =>
+        a.id === link.account.id ||
+        a.key === link.account.key ||
+        (link.account.self !== undefined && link.account.self.endsWith(`/${a.key}`)),
+    );
+
+  const linked: TempoAccount[] = [];
+  let defaultAccountKey: string | undefined;
+  for (const link of links) {
+    const account = findAccount(link);
+    if (!account || (account.status && account.status !== "OPEN")) continue;
+    linked.push(account);
+    if (link.default) defaultAccountKey = account.key;
+  }
+
+  return { accounts: linked, defaultAccountKey };
+}
@@ -0,0 +1,160 @@
+import { z } from "zod";
+import { HttpError } from "./http";
+import { jiraAccountId, tempoFetch } from "./tempo-client";
+
+export type ApprovalStatus = "OPEN" | "IN_REVIEW" | "APPROVED" | "REJECTED";
+
+export interface TimesheetApproval {
+  period: { from: string; to: string };
+  status: ApprovalStatus;
+  /** Comment left by the last actor, e.g. the reviewer's reason for rejecting */
+  comment?: string;
+  reviewerAccountId?: string;
+  requiredSeconds?: number;
+  timeSpentSeconds?: number;
+  canSubmit: boolean;
+  canReopen: boolean;
+}
+
+const approvalSchema = z.object({
+  period: z.object({ from: z.string(), to: z.string() }),
+  requiredSeconds: z.number().optional(),
+  timeSpentSeconds: z.number().optional(),
+  status: z.object({
+    key: z.string(),
+    comment: z.string().nullish(),
+  }),
+  reviewer: z.object({ accountId: z.string() }).nullish(),
+  actions: z
+    .object({
+      submit: z.unknown().optional(),
+      reopen: z.unknown().optional(),
+    })
+    .optional(),
+});
+
+const reviewersSchema = z.object({
+  results: z.array(z.object({ accountId: z.string() })),
+});
+
+const STATUS_LABELS: Record<ApprovalStatus, string> = {
+  OPEN: "Open",
+  IN_REVIEW: "In Review",
+  APPROVED: "Approved",
+  REJECTED: "Rejected",
+};
+
+function toStatus(key: string): ApprovalStatus {
+  const upper = key.toUpperCase();
+  return upper in STATUS_LABELS ? (upper as ApprovalStatus) : "OPEN";
+}
+
+export function formatApprovalStatus(status: ApprovalStatus): string {
+  return STATUS_LABELS[status];
+}
+
+function isLockedStatus(status: ApprovalStatus): boolean {
+  return status === "IN_REVIEW" || status === "APPROVED";
+}
+
+/** Submitted and approved timesheets no longer accept new or changed worklogs */
+export function isApprovalLocked(approval: TimesheetApproval): boolean {
+  return isLockedStatus(approval.status);
+}
+
+// Approvals loaded by this command, so logging several entries doesn't re-check the same period
+const approvalsByPeriod: TimesheetApproval[] = [];
+let approvalsUnavailable = false;
+
+/**
+ * The current user's timesheet approval for the period containing `date`. Approvals may be disabled, so
+ * failures are left to the caller to report.
+ */
+export async function getTimesheetApproval(date: string): Promise<TimesheetApproval> {
+  const accountId = await jiraAccountId();
+  const res = await tempoFetch(`/timesheet-approvals/user/${encodeURIComponent(accountId)}?from=${date}&to=${date}`, {
+    method: "GET",
+    quiet: true,
+  });
+  const data = approvalSchema.parse(await res.json());
+  const status = toStatus(data.status.key);
+
+  const approval: TimesheetApproval = {
+    period: data.period,
+    status,
+    comment: data.status.comment ?? undefined,
+    reviewerAccountId: data.reviewer?.accountId,
+    requiredSeconds: data.requiredSeconds,
+    timeSpentSeconds: data.timeSpentSeconds,
+    canSubmit: data.actions ? data.actions.submit !== undefined : status === "OPEN" || status === "REJECTED",
+    canReopen: data.actions ? data.actions.reopen !== undefined : isLockedStatus(status),
+  };
+  const index = approvalsByPeriod.findIndex((a) => a.period.from === approval.period.from);
+  if (index >= 0) approvalsByPeriod.splice(index, 1);
+  approvalsByPeriod.push(approval);
+  return approval;
+}
+
+/** Account ids of the people who can review the current user's timesheet */
+export async function getTimesheetReviewers(): Promise<string[]> {
+  const accountId = await jiraAccountId();
+  const res = await tempoFetch(`/timesheet-approvals/user/${encodeURIComponent(accountId)}/reviewers`, {
+    method: "GET",
+  });
+  return reviewersSchema.parse(await res.json()).results.map((r) => r.accountId);
+}
+
+async function postApprovalAction(
+  action: "submit" | "reopen",
+  period: TimesheetApproval["period"],
+  body: Record<string, string | undefined>,
+) {
+  const accountId = await jiraAccountId();
+  approvalsByPeriod.length = 0;
+  await tempoFetch(
+    `/timesheet-approvals/user/${encodeURIComponent(accountId)}/${action}?from=${period.from}&to=${period.to}`,
+    { method: "POST", body: JSON.stringify(body) },
+  );
+}
+
+export async function submitTimesheet(
+  period: TimesheetApproval["period"],
+  reviewerAccountId: string | undefined,
+  comment?: string,
+): Promise<void> {
+  await postApprovalAction("submit", period, { reviewerAccountId, comment });
+}
+
+export async function reopenTimesheet(period: TimesheetApproval["period"], comment?: string): Promise<void> {
+  await postApprovalAction("reopen", period, { comment });
+}
+
+/**
+ * Throw a readable error when the timesheet covering `date` is in review or approved, instead of
+ * letting Tempo reject the worklog with a bare 400. Each period is checked once per command. If
+ * approvals are turned off for the site (403/404), logging proceeds without asking again; any other
+ * failure only skips this check.
+ */
+export async function assertTimesheetOpen(date: string, action = "logging time"): Promise<void> {
+  if (approvalsUnavailable) return;
+
+  let approval = approvalsByPeriod.find((a) => a.period.from <= date && date <= a.period.to);
+  if (!approval) {
+    try {
+      approval = await getTimesheetApproval(date);
+    } catch (error) {
+      if (error instanceof HttpError && (error.status === 403 || error.status === 404)) {
+        approvalsUnavailable = true;
+      }
+      return;
+    }
+  }
+
+  if (isApprovalLocked(approval)) {
+    throw new Error(
+      `Your timesheet for ${approval.period.from} – ${approval.period.to} is ${formatApprovalStatus(
+        approval.status,
+      ).toLowerCase()}. Reopen it before ${action} on ${date}.`,
+    );
+  }
+}
@@ -0,0 +1,137 @@
+import { z } from "zod";
+import { environment, getPreferenceValues, LaunchType } from "@raycast/api";
+import { handleError } from "../utils/error-handling";
+import { dataCenterFetch } from "./tempo-datacenter";
+import { httpRequest, type HttpRequestInit } from "./http";
+import { getJiraAuthMode, getJiraBaseUrl, isJiraDataCenter, jiraApiPath, jiraFetch } from "./jira";
+
+interface Prefs {
+  jiraApiToken: string;
+  tempoApiToken?: string;
+  tempoRegion?: "us" | "eu" | "datacenter" | "custom";
+  tempoCustomBaseUrl?: string;
+}
+
+export type TempoFlavor = "cloud" | "datacenter";
+
+export interface TempoConfig {
+  baseUrl: string;
+  flavor: TempoFlavor;
+}
+
+const TEMPO_CLOUD_BASES = {
+  us: "https://api.tempo.io/4",
+  eu: "https://api.eu.tempo.io/4",
+};
+
+export interface TempoFetchInit extends HttpRequestInit {
+  /** For best-effort probes whose callers fall back on failure: don't show an error toast */
+  quiet?: boolean;
+}
+
+let cachedAccountId: string | null = null;
+
+export function getTempoConfig(): TempoConfig {
+  const { tempoRegion = "us", tempoCustomBaseUrl } = getPreferenceValues<Prefs>();
+
+  switch (tempoRegion) {
+    case "eu":
+      return { baseUrl: TEMPO_CLOUD_BASES.eu, flavor: "cloud" };
+    case "datacenter":
+      return { baseUrl: getJiraBaseUrl(), flavor: "datacenter" };
+    case "custom": {
+      const custom = (tempoCustomBaseUrl || "").trim().replace(/\/+$/, "");
+      if (!custom) {
+        throw new Error("Custom Tempo API URL is not configured in preferences");
+      }
+      return { baseUrl: custom, flavor: "cloud" };
+    }
+    default:
+      return { baseUrl: TEMPO_CLOUD_BASES.us, flavor: "cloud" };
+  }
+}
+
+/**
+ * The id Tempo uses for the current user: the Atlassian account id on Cloud,
+ * the Jira user key on Data Center.
+ */
+export async function jiraAccountId(): Promise<string> {
+  if (cachedAccountId) return cachedAccountId;
+
+  const isDataCenter = isJiraDataCenter();
+  const res = await jiraFetch(jiraApiPath("/myself"));
+
+  const me = (await res.json()) as { accountId?: string; key?: string };
+  const id = isDataCenter ? me.key : me.accountId;
+  if (!id) {
+    throw new Error("Could not determine your Jira user id");
+  }
+  cachedAccountId = id;
+  return cachedAccountId;
+}
+
+function tempoHeaders(): Record<string, string> {
+  const { tempoApiToken, jiraApiToken } = getPreferenceValues<Prefs>();
+  // Tempo on Data Center accepts the same personal access token as Jira
+  const token =
+    tempoApiToken || (getTempoConfig().flavor === "datacenter" && getJiraAuthMode() === "bearer" ? jiraApiToken : "");
+  if (!token) {
+    throw new Error("Tempo API token is not configured in preferences");
+  }
+  return {
+    Authorization: `Bearer ${token}`,
+    "Content-Type": "application/json",
+    Accept: "application/json",
+  };
+}
+
+/**
+ * Call the Tempo REST API using Cloud v4 paths and payloads. On Data Center the request and
+ * response are translated to and from the `/rest/tempo-timesheets/4` shapes.
+ */
+export async function tempoFetch(path: string, tempoInit?: TempoFetchInit): Promise<Response> {
+  const { quiet, ...init } = tempoInit ?? {};
+  const config = getTempoConfig();
+  const send = (url: string, requestInit?: HttpRequestInit) =>
+    httpRequest("Tempo", url, {
+      ...requestInit,
+      headers: { ...tempoHeaders(), ...requestInit?.headers },
+    });
+
+  try {
+    if (config.flavor === "datacenter") {
+      return await dataCenterFetch(config.baseUrl, path, init, send);
+    }
+    // Pagination links in Tempo responses are absolute URLs
+    const url = /^https?:\/\//.test(path) ? path : `${config.baseUrl}${path}`;
+    return await send(url, init);
+  } catch (error) {
+    // Background runs (e.g. the menu bar retrying the outbox) and probes fail quietly
+    if (!quiet && environment.launchType !== LaunchType.Background) {
+      await handleError(error, "Tempo API Error");
+    }
+    throw error;
+  }
+}
+
+/** Read every page of a paginated Tempo collection by following `metadata.next` */
+export async function fetchAllPages<T>(
+  path: string,
+  itemSchema: z.ZodType<T>,
+  options: Pick<TempoFetchInit, "quiet"> = {},
+): Promise<T[]> {
+  const pageSchema = z.object({
+    results: z.array(itemSchema),
+    metadata: z.object({ next: z.string().optional() }).optional(),
+  });
+
+  const items: T[] = [];
+  let next: string | undefined = path;
+  while (next) {
+    const res = await tempoFetch(next, { method: "GET", quiet: options.quiet });
+    const page = pageSchema.parse(await res.json());
+    items.push(...page.results);
+    next = page.metadata?.next;
+  }
+  return items;
+}
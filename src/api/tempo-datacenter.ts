@@ -0,0 +1,333 @@
+import type { TempoWorklog } from "../types";
+import type { HttpRequestInit } from "./http";
+
+/*
+ * Compatibility layer for Tempo on Jira Data Center. Callers keep using Cloud v4 paths and payloads;
+ * supported routes are rewritten to the Timesheets, Core, Teams, Accounts and Planning endpoints and their
+ * responses are reshaped into the Cloud format. Any other route fails with an explicit error.
+ */
+
+type Send = (url: string, init?: HttpRequestInit) => Promise<Response>;
+
+const TIMESHEETS_PATH = "/rest/tempo-timesheets/4";
+const CORE_PATH = "/rest/tempo-core/1";
+const TEAMS_PATH = "/rest/tempo-teams/2";
+const ACCOUNTS_PATH = "/rest/tempo-accounts/1";
+const PLANNING_PATH = "/rest/tempo-planning/1";
+
+interface CloudWorklogBody {
+  issueId: number;
+  timeSpentSeconds: number;
+  billableSeconds?: number;
+  remainingEstimateSeconds?: number;
+  startDate: string;
+  startTime?: string;
+  description?: string;
+  authorAccountId: string;
+  attributes?: { key: string; value: string }[];
+}
+
+interface DataCenterWorklog {
+  tempoWorklogId: number;
+  originId?: number;
+  issue?: { id: number; key: string };
+  originTaskId?: string;
+  timeSpentSeconds: number;
+  billableSeconds?: number;
+  started: string;
+  comment?: string;
+  worker?: string;
+  attributes?: Record<string, { value: string }>;
+}
+
+interface DataCenterWorkAttribute {
+  key: string;
+  name: string;
+  required?: boolean;
+  type?: { value: string };
+  staticListValues?: { name: string; value: string }[];
+}
+
+interface DataCenterApproval {
+  status: string;
+  period: { dateFrom: string; dateTo: string };
+  requiredSeconds?: number;
+  workedSeconds?: number;
+  reviewer?: { key: string };
+  action?: { comment?: string };
+}
+
+const DATA_CENTER_APPROVAL_STATUSES: Record<string, string> = {
+  open: "OPEN",
+  waiting_for_approval: "IN_REVIEW",
+  ready_to_submit: "OPEN",
+  approved: "APPROVED",
+  rejected: "REJECTED",
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+function toDataCenterBody(body: CloudWorklogBody) {
+  return {
+    worker: body.authorAccountId,
+    originTaskId: String(body.issueId),
+    started: `${body.startDate}T${body.startTime ?? "00:00:00"}.000`,
+    timeSpentSeconds: body.timeSpentSeconds,
+    billableSeconds: body.billableSeconds,
+    remainingEstimate: body.remainingEstimateSeconds,
+    comment: body.description,
+    attributes: Object.fromEntries((body.attributes ?? []).map((a) => [a.key, { value: a.value }])),
+  };
+}
+
+function toCloudWorklog(wl: DataCenterWorklog): TempoWorklog {
+  return {
+    tempoWorklogId: wl.tempoWorklogId,
+    jiraWorklogId: wl.originId,
+    issue: { id: wl.issue?.id ?? Number(wl.originTaskId), key: wl.issue?.key },
+    timeSpentSeconds: wl.timeSpentSeconds,
+    billableSeconds: wl.billableSeconds,
+    startDate: wl.started.substring(0, 10),
+    startTime: wl.started.substring(11, 19),
+    description: wl.comment,
+    author: wl.worker ? { accountId: wl.worker } : undefined,
+    attributes: {
+      values: Object.entries(wl.attributes ?? {}).map(([key, a]) => ({ key, value: a.value })),
+    },
+  };
+}
+
+interface DataCenterTeam {
+  id: number;
+  name: string;
+  summary?: string;
+  lead?: string;
+}
+
+interface DataCenterTeamMember {
+  member: { key?: string; name: string };
+  membership?: { status?: string };
+}
+
+interface DataCenterAccount {
+  id: number;
+  key: string;
+  name: string;
+  status?: string;
+}
+
+interface DataCenterAccountLink {
+  accountId: number;
+  default?: boolean;
+}
+
+interface DataCenterAllocation {
+  id: number;
+  planItem: { id: number | string; type: string };
+  start: string;
+  end: string;
+  secondsPerDay?: number;
+  startTime?: string;
+  description?: string;
+}
+
+function toCloudWorkAttribute(attr: DataCenterWorkAttribute) {
+  const options = attr.staticListValues ?? [];
+  return {
+    key: attr.key,
+    name: attr.name,
+    type: attr.type?.value,
+    required: attr.required ?? false,
+    values: options.map((o) => o.value),
+    names: Object.fromEntries(options.map((o) => [o.value, o.name])),
+  };
+}
+
+export async function dataCenterFetch(baseUrl: string, path: string, init: HttpRequestInit | undefined, send: Send) {
+  const url = new URL(path, "http://placeholder");
+  const method = (init?.method ?? "GET").toUpperCase();
+  const worklogMatch = url.pathname.match(/^\/worklogs\/(\d+)$/);
+  const userWorklogsMatch = url.pathname.match(/^\/worklogs\/user\/([^/]+)$/);
+  const userScheduleMatch = url.pathname.match(/^\/user-schedule\/([^/]+)$/);
+  const teamMembersMatch = url.pathname.match(/^\/teams\/(\d+)\/members$/);
+  const teamWorklogsMatch = url.pathname.match(/^\/worklogs\/team\/(\d+)$/);
+  const accountLinksMatch = url.pathname.match(/^\/account-links\/project\/([^/]+)$/);
+  const userPlansMatch = url.pathname.match(/^\/plans\/user\/([^/]+)$/);
+  const approvalMatch = url.pathname.match(/^\/timesheet-approvals\/user\/([^/]+)(?:\/(reviewers|submit|reopen))?$/);
+
+  if (url.pathname === "/work-attributes" && method === "GET") {
+    const res = await send(`${baseUrl}${CORE_PATH}/work-attribute`, { method: "GET" });
+    const attributes = (await res.json()) as DataCenterWorkAttribute[];
+    return jsonResponse({ results: attributes.map(toCloudWorkAttribute) });
+  }
+
+  if (url.pathname === "/worklogs" && method === "POST") {
+    const body = toDataCenterBody(JSON.parse(String(init?.body)) as CloudWorklogBody);
+    const res = await send(`${baseUrl}${TIMESHEETS_PATH}/worklogs`, { method: "POST", body: JSON.stringify(body) });
+    // Data Center answers with an array of the created worklogs
+    const created = (await res.json()) as DataCenterWorklog[];
+    return jsonResponse(toCloudWorklog(created[0]));
+  }
+
+  if (worklogMatch && method === "PUT") {
+    const body = toDataCenterBody(JSON.parse(String(init?.body)) as CloudWorklogBody);
+    const res = await send(`${baseUrl}${TIMESHEETS_PATH}/worklogs/${worklogMatch[1]}`, {
+      method: "PUT",
+      body: JSON.stringify(body),
+    });
+    return jsonResponse(toCloudWorklog((await res.json()) as DataCenterWorklog));
+  }
+
+  if (worklogMatch && method === "DELETE") {
+    return send(`${baseUrl}${TIMESHEETS_PATH}/worklogs/${worklogMatch[1]}`, { method: "DELETE" });
+  }
+
+  if (url.pathname === "/user-schedule" && method === "GET") {
+    const res = await send(`${baseUrl}${CORE_PATH}/user/schedule${url.search}`, { method: "GET" });
+    const schedule = (await res.json()) as { days?: unknown[] };
+    return jsonResponse({ results: schedule.days ?? [] });
+  }
+
+  if (userScheduleMatch && method === "GET") {
+    const params = new URLSearchParams(url.search);
+    params.set("user", decodeURIComponent(userScheduleMatch[1]));
+    const res = await send(`${baseUrl}${CORE_PATH}/user/schedule?${params}`, { method: "GET" });
+    const schedule = (await res.json()) as { days?: unknown[] };
+    return jsonResponse({ results: schedule.days ?? [] });
+  }
+
+  if (url.pathname === "/teams" && method === "GET") {
+    const res = await send(`${baseUrl}${TEAMS_PATH}/team`, { method: "GET" });
+    const teams = (await res.json()) as DataCenterTeam[];
+    return jsonResponse({
+      results: teams.map((t) => ({
+        id: t.id,
+        name: t.name,
+        summary: t.summary,
+        lead: t.lead ? { accountId: t.lead } : undefined,
+      })),
+    });
+  }
+
+  if (teamMembersMatch && method === "GET") {
+    const res = await send(`${baseUrl}${TEAMS_PATH}/team/${teamMembersMatch[1]}/member`, { method: "GET" });
+    const members = (await res.json()) as DataCenterTeamMember[];
+    return jsonResponse({
+      results: members.map((m) => ({
+        member: { accountId: m.member.key ?? m.member.name },
+        memberships: { active: m.membership?.status === "active" ? m.membership : null },
+      })),
+    });
+  }
+
+  if (teamWorklogsMatch && method === "GET") {
+    const res = await send(`${baseUrl}${TIMESHEETS_PATH}/worklogs/search`, {
+      method: "POST",
+      idempotent: true,
+      body: JSON.stringify({
+        from: url.searchParams.get("from"),
+        to: url.searchParams.get("to"),
+        teamId: [Number(teamWorklogsMatch[1])],
+      }),
+    });
+    const worklogs = (await res.json()) as DataCenterWorklog[];
+    return jsonResponse({ results: worklogs.map(toCloudWorklog) });
+  }
+
+  if (approvalMatch && !approvalMatch[2] && method === "GET") {
+    const params = new URLSearchParams({
+      periodStartDate: url.searchParams.get("from") ?? "",
+      userKey: decodeURIComponent(approvalMatch[1]),
+    });
+    const res = await send(`${baseUrl}${TIMESHEETS_PATH}/timesheet-approval/current?${params}`, { method: "GET" });
+    const approval = (await res.json()) as DataCenterApproval;
+    return jsonResponse({
+      period: { from: approval.period.dateFrom, to: approval.period.dateTo },
+      requiredSeconds: approval.requiredSeconds,
+      timeSpentSeconds: approval.workedSeconds,
+      status: {
+        key: DATA_CENTER_APPROVAL_STATUSES[approval.status] ?? "OPEN",
+        comment: approval.action?.comment,
+      },
+      reviewer: approval.reviewer ? { accountId: approval.reviewer.key } : undefined,
+    });
+  }
+
+  if (approvalMatch?.[2] === "reviewers" && method === "GET") {
+    // Data Center routes submissions to the team lead, so there is no reviewer to choose
+    return jsonResponse({ results: [] });
+  }
+
+  if ((approvalMatch?.[2] === "submit" || approvalMatch?.[2] === "reopen") && method === "POST") {
+    const body = JSON.parse(String(init?.body ?? "{}")) as { comment?: string; reviewerAccountId?: string };
+    return send(`${baseUrl}${TIMESHEETS_PATH}/timesheet-approval`, {
+      method: "POST",
+      body: JSON.stringify({
+        user: { key: decodeURIComponent(approvalMatch[1]) },
+        period: { dateFrom: url.searchParams.get("from") },
+        action: {
+          name: approvalMatch[2],
+          comment: body.comment,
+          reviewer: body.reviewerAccountId ? { key: body.reviewerAccountId } : undefined,
+        },
+      }),
+    });
+  }
+
+  if (userWorklogsMatch && method === "GET") {
+    const res = await send(`${baseUrl}${TIMESHEETS_PATH}/worklogs/search`, {
+      method: "POST",
+      idempotent: true,
+      body: JSON.stringify({
+        from: url.searchParams.get("from"),
+        to: url.searchParams.get("to"),
+        worker: [decodeURIComponent(userWorklogsMatch[1])],
+      }),
+    });
+    // Search is not paginated on Data Center, so return a plain array (a single page)
+    const worklogs = (await res.json()) as DataCenterWorklog[];
+    return jsonResponse(worklogs.map(toCloudWorklog));
+  }
+
+  if (url.pathname === "/accounts" && method === "GET") {
+    const res = await send(`${baseUrl}${ACCOUNTS_PATH}/account`, { method: "GET" });
+    const accounts = (await res.json()) as DataCenterAccount[];
+    return jsonResponse({
+      results: accounts.map((a) => ({ id: a.id, key: a.key, name: a.name, status: a.status })),
+    });
+  }
+
+  if (accountLinksMatch && method === "GET") {
+    const res = await send(`${baseUrl}${ACCOUNTS_PATH}/link/project/${accountLinksMatch[1]}`, { method: "GET" });
+    const links = (await res.json()) as DataCenterAccountLink[];
+    return jsonResponse({
+      results: links.map((l) => ({ default: l.default ?? false, account: { id: l.accountId } })),
+    });
+  }
+
+  if (userPlansMatch && method === "GET") {
+    const params = new URLSearchParams({
+      assigneeKeys: decodeURIComponent(userPlansMatch[1]),
+      assigneeType: "user",
+      startDate: url.searchParams.get("from") ?? "",
+      endDate: url.searchParams.get("to") ?? "",
+    });
+    const res = await send(`${baseUrl}${PLANNING_PATH}/allocation?${params}`, { method: "GET" });
+    const allocations = (await res.json()) as DataCenterAllocation[];
+    return jsonResponse({
+      results: allocations.map((a) => ({
+        id: a.id,
+        startDate: a.start.substring(0, 10),
+        endDate: a.end.substring(0, 10),
+        startTime: a.startTime,
+        description: a.description,
+        plannedSecondsPerDay: a.secondsPerDay,
+        planItem: { id: a.planItem.id, type: a.planItem.type.toUpperCase() },
+      })),
+    });
+  }
+
+  throw new Error(`Tempo ${method} ${url.pathname} is not supported on Jira Data Center`);
+}
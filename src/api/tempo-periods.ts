@@ -0,0 +1,22 @@
+import { z } from "zod";
+import { getTempoConfig, tempoFetch } from "./tempo-client";
+import { isTempoBackend } from "./worklog-backend";
+
+export interface TimesheetPeriod {
+  from: string;
+  to: string;
+}
+
+const periodsSchema = z.object({
+  periods: z.array(z.object({ from: z.string(), to: z.string() })),
+});
+
+/** Tempo's configured timesheet periods overlapping the date range, oldest first */
+export async function getTimesheetPeriods(from: string, to: string): Promise<TimesheetPeriod[]> {
+  // Jira-only sites and the Data Center compatibility layer have no periods; callers fall back to weeks
+  if (!isTempoBackend() || getTempoConfig().flavor === "datacenter") return [];
+
+  const res = await tempoFetch(`/periods?from=${from}&to=${to}`, { method: "GET", quiet: true });
+  const data = periodsSchema.parse(await res.json());
+  return data.periods.map((p) => ({ from: p.from, to: p.to })).sort((a, b) => a.from.localeCompare(b.from));
+}
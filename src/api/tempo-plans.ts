@@ -0,0 +1,77 @@
+import { addDays, format, parseISO } from "date-fns";
+import { z } from "zod";
+import { fetchAllPages, jiraAccountId } from "./tempo-client";
+import { isTempoBackend } from "./worklog-backend";
+
+/** Time planned on one issue for one day */
+export interface PlannedAllocation {
+  planId: number;
+  issueId: number;
+  date: string;
+  plannedSeconds: number;
+  startTime?: string;
+  description?: string;
+}
+
+const planSchema = z.object({
+  id: z.number(),
+  startDate: z.string(),
+  endDate: z.string(),
+  startTime: z.string().nullish(),
+  description: z.string().nullish(),
+  plannedSecondsPerDay: z.number().optional(),
+  planItem: z.object({ id: z.union([z.number(), z.string()]), type: z.string() }),
+  dates: z
+    .object({
+      values: z.array(z.object({ date: z.string(), timePlannedSeconds: z.number() })),
+    })
+    .optional(),
+});
+
+type Plan = z.infer<typeof planSchema>;
+
+function planDays(plan: Plan): { date: string; seconds: number }[] {
+  if (plan.dates) {
+    return plan.dates.values.map((d) => ({ date: d.date, seconds: d.timePlannedSeconds }));
+  }
+
+  const days: { date: string; seconds: number }[] = [];
+  for (let d = parseISO(plan.startDate); format(d, "yyyy-MM-dd") <= plan.endDate; d = addDays(d, 1)) {
+    days.push({ date: format(d, "yyyy-MM-dd"), seconds: plan.plannedSecondsPerDay ?? 0 });
+  }
+  return days;
+}
+
+/** Tempo sends the plan's start as "9:00" or "09:00:00"; worklogs need "HH:mm:ss" */
+function toWorklogStartTime(time: string): string | undefined {
+  const match = time.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (!match) return undefined;
+  const [, hours, minutes, seconds = "00"] = match;
+  return `${hours.padStart(2, "0")}:${minutes}:${seconds}`;
+}
+
+/** The current user's issue plans in the range, split into one allocation per planned day */
+export async function getMyPlannedAllocations(from: string, to: string): Promise<PlannedAllocation[]> {
+  if (!isTempoBackend()) return [];
+  const accountId = await jiraAccountId();
+  const plans = await fetchAllPages(
+    `/plans/user/${encodeURIComponent(accountId)}?from=${from}&to=${to}&limit=1000`,
+    planSchema,
+    { quiet: true },
+  );
+
+  return plans
+    .filter((plan) => plan.planItem.type === "ISSUE")
+    .flatMap((plan) =>
+      planDays(plan)
+        .filter((day) => day.seconds > 0 && day.date >= from && day.date <= to)
+        .map((day) => ({
+          planId: plan.id,
+          issueId: Number(plan.planItem.id),
+          date: day.date,
+          plannedSeconds: day.seconds,
+          startTime: plan.startTime ? toWorklogStartTime(plan.startTime) : undefined,
+          description: plan.description ?? undefined,
+        })),
+    );
+}
@@ -0,0 +1,48 @@
+import { z } from "zod";
+import { tempoFetch } from "./tempo-client";
+import { isTempoBackend } from "./worklog-backend";
+
+export type ScheduleDayType = "WORKING_DAY" | "NON_WORKING_DAY" | "HOLIDAY" | "HOLIDAY_AND_NON_WORKING_DAY";
+
+export interface UserScheduleDay {
+  date: string;
+  requiredSeconds: number;
+  type: ScheduleDayType;
+  holidayName?: string;
+}
+
+const scheduleSchema = z.object({
+  results: z.array(
+    z.object({
+      date: z.string(),
+      requiredSeconds: z.number(),
+      type: z.enum(["WORKING_DAY", "NON_WORKING_DAY", "HOLIDAY", "HOLIDAY_AND_NON_WORKING_DAY"]),
+      holiday: z.object({ name: z.string().optional() }).nullish(),
+    }),
+  ),
+});
+
+function toScheduleDays(data: z.infer<typeof scheduleSchema>): UserScheduleDay[] {
+  return data.results.map((d) => ({
+    date: d.date,
+    requiredSeconds: d.requiredSeconds,
+    type: d.type,
+    holidayName: d.holiday?.name,
+  }));
+}
+
+/** Required seconds per day for the current user, including holidays and non-working days */
+export async function getMyUserSchedule(from: string, to: string): Promise<UserScheduleDay[]> {
+  if (!isTempoBackend()) return [];
+  const res = await tempoFetch(`/user-schedule?from=${from}&to=${to}`, { method: "GET", quiet: true });
+  return toScheduleDays(scheduleSchema.parse(await res.json()));
+}
+
+/** Required seconds per day for another user, e.g. a member of a team you lead */
+export async function getUserSchedule(accountId: string, from: string, to: string): Promise<UserScheduleDay[]> {
+  const res = await tempoFetch(`/user-schedule/${encodeURIComponent(accountId)}?from=${from}&to=${to}`, {
+    method: "GET",
+    quiet: true,
+  });
+  return toScheduleDays(scheduleSchema.parse(await res.json()));
+}
@@ -0,0 +1,89 @@
+import { z } from "zod";
+
+/** Tempo sends `null` for some empty fields; normalise those to undefined */
+const optionalString = z
+  .string()
+  .nullish()
+  .transform((v) => v ?? undefined)
+  .optional();
+
+const optionalNumber = z
+  .number()
+  .nullish()
+  .transform((v) => v ?? undefined)
+  .optional();
+
+const selfLink = optionalString;
+
+export const worklogAttributeValueSchema = z.object({
+  key: z.string(),
+  value: z.string(),
+});
+
+/** A worklog as returned by Tempo Cloud v4 (and the Data Center compatibility layer) */
+export const tempoWorklogSchema = z.object({
+  self: selfLink,
+  tempoWorklogId: z.number(),
+  jiraWorklogId: optionalNumber,
+  issue: z.object({
+    self: selfLink,
+    id: z.number(),
+    key: optionalString,
+    // Not sent by Tempo; filled in from Jira by resolveWorklogIssues
+    summary: optionalString,
+  }),
+  timeSpentSeconds: z.number(),
+  billableSeconds: optionalNumber,
+  startDate: z.string(),
+  startTime: z.string(),
+  startDateTimeUtc: optionalString,
+  description: optionalString,
+  createdAt: optionalString,
+  updatedAt: optionalString,
+  author: z.object({ self: selfLink, accountId: z.string() }).optional(),
+  attributes: z
+    .object({
+      self: selfLink,
+      values: z.array(worklogAttributeValueSchema),
+    })
+    .optional(),
+});
+
+export type ParsedTempoWorklog = z.infer<typeof tempoWorklogSchema>;
+
+/** What a worklog can't be listed or edited without; a worklog missing any of these is dropped */
+const minimalWorklogSchema = z.object({
+  tempoWorklogId: z.number(),
+  issue: z.object({ id: z.number() }),
+  timeSpentSeconds: z.number(),
+  startDate: z.string(),
+});
+
+/**
+ * Validate a worklog from Tempo. On a mismatch the worklog is logged and cut down to its required
+ * fields, so a new or renamed field degrades a single list item instead of failing the whole command.
+ * Returns undefined when even the required fields are missing.
+ */
+function toWorklog(raw: unknown): ParsedTempoWorklog | undefined {
+  const result = tempoWorklogSchema.safeParse(raw);
+  if (result.success) return result.data;
+
+  const id = (raw as { tempoWorklogId?: unknown } | null)?.tempoWorklogId;
+  console.warn(`[Tempo] Worklog ${id ?? "(unknown)"} does not match the expected schema`, result.error.issues);
+
+  const minimal = minimalWorklogSchema.safeParse(raw);
+  if (!minimal.success) return undefined;
+  const startTime = (raw as { startTime?: unknown }).startTime;
+  return { ...minimal.data, startTime: typeof startTime === "string" ? startTime : "" };
+}
+
+export function parseTempoWorklog(raw: unknown): ParsedTempoWorklog {
+  const worklog = toWorklog(raw);
+  if (!worklog) throw new Error("Tempo returned a worklog without its id, issue, date or duration");
+  return worklog;
+}
+
+/** Worklogs missing required fields are left out */
+export function parseTempoWorklogs(raw: unknown[]): ParsedTempoWorklog[] {
+  return raw.map(toWorklog).filter((w): w is ParsedTempoWorklog => w !== undefined);
+}
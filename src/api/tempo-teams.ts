@@ -0,0 +1,64 @@
+import { z } from "zod";
+import type { TempoWorklog } from "../types";
+import { fetchAllPages } from "./tempo-client";
+import { getUserDisplayName } from "./jira";
+import { parseTempoWorklogs } from "./tempo-schemas";
+import { resolveWorklogIssues } from "./issue-resolver";
+import { isTempoBackend } from "./worklog-backend";
+
+export interface TempoTeam {
+  id: number;
+  name: string;
+  summary?: string;
+  leadAccountId?: string;
+}
+
+export interface TeamMember {
+  accountId: string;
+  displayName: string;
+}
+
+const teamSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  summary: z.string().nullish(),
+  lead: z.object({ accountId: z.string() }).nullish(),
+});
+
+const teamMemberSchema = z.object({
+  member: z.object({ accountId: z.string() }),
+  memberships: z.object({ active: z.unknown().nullish() }).optional(),
+});
+
+export async function getTeams(): Promise<TempoTeam[]> {
+  if (!isTempoBackend()) return [];
+  const teams = await fetchAllPages(`/teams`, teamSchema);
+  return teams
+    .map((t) => ({ id: t.id, name: t.name, summary: t.summary ?? undefined, leadAccountId: t.lead?.accountId }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Current members of a team with their Jira display names, sorted by name */
+export async function getTeamMembers(teamId: number): Promise<TeamMember[]> {
+  const memberships = await fetchAllPages(`/teams/${teamId}/members`, teamMemberSchema);
+  const accountIds = Array.from(
+    new Set(memberships.filter((m) => !m.memberships || m.memberships.active).map((m) => m.member.accountId)),
+  );
+
+  const members = await Promise.all(
+    accountIds.map(async (accountId) => ({
+      accountId,
+      displayName: await getUserDisplayName(accountId).catch(() => accountId),
+    })),
+  );
+  return members.sort((a, b) => a.displayName.localeCompare(b.displayName));
+}
+
+/** Every worklog logged by members of the team in the date range */
+export async function getTeamWorklogs(teamId: number, from: string, to: string): Promise<TempoWorklog[]> {
+  const raw = await fetchAllPages(
+    `/worklogs/team/${teamId}?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}&limit=1000`,
+    z.unknown(),
+  );
+  return resolveWorklogIssues(parseTempoWorklogs(raw));
+}
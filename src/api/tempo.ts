@@ -1,90 +1,56 @@
-import fetch from "cross-fetch";
-import { getPreferenceValues, LocalStorage } from "@raycast/api";
+import { LocalStorage } from "@raycast/api";
 import { z } from "zod";
 import type { TempoWorklog } from "../types";
-import { handleError } from "../utils/error-handling";
+import { jiraAccountId, tempoFetch } from "./tempo-client";
+import { parseTempoWorklog, parseTempoWorklogs } from "./tempo-schemas";
+import { getWorklogBackendId, isTempoBackend, type WorklogBackend } from "./worklog-backend";
+import { jiraWorklogBackend } from "./jira-worklogs";
+import { assertTimesheetOpen } from "./tempo-approvals";
+import { WORK_TYPE_ATTRIBUTE_KEY } from "../utils/worklogs";
+import { invalidateWorklogCache, isCacheFresh, readCachedWorklogs, writeCachedWorklogs } from "./worklog-cache";
+import { resolveWorklogIssues } from "./issue-resolver";
 
-interface Prefs {
-  jiraBaseUrl: string;
-  jiraEmail: string;
-  jiraApiToken: string;
-  tempoApiToken: string;
-}
-
-const TEMPO_API_BASE = "https://api.tempo.io/4";
-const WORK_TYPES_CACHE_KEY = "tempo.worktypes.cache.v1";
-const WORK_TYPES_TTL_MS = 1000 * 60 * 60 * 24 * 7;
-
-let cachedAccountId: string | null = null;
-let cachedWorkTypes: WorkType[] | null = null;
+const WORK_ATTRIBUTES_CACHE_KEY = "tempo.workattributes.cache.v1";
+const WORK_ATTRIBUTES_TTL_MS = 1000 * 60 * 60 * 24 * 7;
 
-async function jiraAccountId(): Promise<string> {
-  if (cachedAccountId) return cachedAccountId;
+let cachedWorkAttributes: WorkAttribute[] | null = null;
 
-  const { jiraBaseUrl, jiraEmail, jiraApiToken } = getPreferenceValues<Prefs>();
-  const res = await fetch(`https://${jiraBaseUrl}/rest/api/3/myself`, {
-    headers: {
-      Authorization: "Basic " + Buffer.from(`${jiraEmail}:${jiraApiToken}`).toString("base64"),
-      Accept: "application/json",
-    },
-  });
-  
-  if (!res.ok) {
-    throw new Error(`Jira authentication failed: ${res.status} ${res.statusText}`);
-  }
-
-  const me = (await res.json()) as { accountId: string };
-  cachedAccountId = me.accountId;
-  return cachedAccountId;
-}
-
-function tempoHeaders(): Record<string, string> {
-  const { tempoApiToken } = getPreferenceValues<Prefs>();
-  if (!tempoApiToken) {
-    throw new Error("Tempo API token is not configured in preferences");
-  }
-  return {
-    Authorization: `Bearer ${tempoApiToken}`,
-    "Content-Type": "application/json",
-    Accept: "application/json",
-  };
+export interface WorkType {
+  value: string;
+  label: string;
 }
 
-async function tempoFetch(path: string, init?: RequestInit): Promise<Response> {
-  const res = await fetch(`${TEMPO_API_BASE}${path}`, {
-    ...init,
-    headers: { ...tempoHeaders(), ...init?.headers },
-  });
-
-  if (!res.ok) {
-    const text = await res.text().catch(() => "");
-    let message = `Tempo API error: ${res.status} ${res.statusText}`;
-    if (text) message += ` – ${text.slice(0, 300)}`;
-    await handleError(new Error(message), "Tempo API Error");
-    throw new Error(message);
-  }
+export type WorkAttributeType = "STATIC_LIST" | "ACCOUNT" | "CHECKBOX" | "INPUT_FIELD" | "INPUT_NUMERIC";
 
-  return res;
+export interface WorkAttribute {
+  key: string;
+  name: string;
+  type: WorkAttributeType | string;
+  required: boolean;
+  /** Selectable options for static lists; empty for free-form attributes */
+  values: WorkType[];
 }
 
-export interface WorkType {
+export interface WorkAttributeValue {
+  key: string;
   value: string;
-  label: string;
 }
 
-export async function getWorkTypes(forceRefresh = false): Promise<WorkType[]> {
-  if (!forceRefresh && cachedWorkTypes && cachedWorkTypes.length > 0) {
-    return cachedWorkTypes;
+export async function getWorkAttributes(forceRefresh = false): Promise<WorkAttribute[]> {
+  if (!isTempoBackend()) return [];
+
+  if (!forceRefresh && cachedWorkAttributes) {
+    return cachedWorkAttributes;
   }
 
   if (!forceRefresh) {
-    const cached = await LocalStorage.getItem<string>(WORK_TYPES_CACHE_KEY);
+    const cached = await LocalStorage.getItem<string>(WORK_ATTRIBUTES_CACHE_KEY);
     if (cached) {
       try {
-        const parsed = JSON.parse(cached) as { ts: number; items: WorkType[] };
-        if (Array.isArray(parsed.items) && Date.now() - parsed.ts < WORK_TYPES_TTL_MS) {
-          cachedWorkTypes = parsed.items;
-          return cachedWorkTypes;
+        const parsed = JSON.parse(cached) as { ts: number; items: WorkAttribute[] };
+        if (Array.isArray(parsed.items) && Date.now() - parsed.ts < WORK_ATTRIBUTES_TTL_MS) {
+          cachedWorkAttributes = parsed.items;
+          return cachedWorkAttributes;
         }
       } catch {
         // Ignore parse errors
@@ -98,73 +64,218 @@ export async function getWorkTypes(forceRefresh = false): Promise<WorkType[]> {
   const attributeSchema = z.object({
     key: z.string(),
     name: z.string(),
-    values: z.array(z.string()),
-    names: z.record(z.string(), z.string()),
+    type: z.string().optional(),
+    required: z.boolean().optional(),
+    values: z.array(z.string()).optional(),
+    names: z.record(z.string(), z.string()).optional(),
   });
 
   const collectionSchema = z.object({
     results: z.array(attributeSchema),
   });
 
-  const attributes = Array.isArray(json) ? z.array(attributeSchema).parse(json) : collectionSchema.parse(json).results;
-  const workTypeAttr = attributes.find((a) => a.name.toLowerCase() === "work type");
+  const raw = Array.isArray(json) ? z.array(attributeSchema).parse(json) : collectionSchema.parse(json).results;
 
-  const arr: WorkType[] =
-    workTypeAttr?.values.map((v) => ({
-      value: v,
-      label: workTypeAttr.names[v],
-    })) ?? [];
+  const attributes: WorkAttribute[] = raw.map((a) => ({
+    key: a.key,
+    name: a.name,
+    type: a.type ?? "STATIC_LIST",
+    required: a.required ?? false,
+    values: (a.values ?? []).map((v) => ({ value: v, label: a.names?.[v] ?? v })),
+  }));
+
+  cachedWorkAttributes = attributes;
+  await LocalStorage.setItem(WORK_ATTRIBUTES_CACHE_KEY, JSON.stringify({ ts: Date.now(), items: attributes }));
+  return attributes;
+}
+
+export async function getWorkTypes(forceRefresh = false): Promise<WorkType[]> {
+  const attributes = await getWorkAttributes(forceRefresh);
+  const workTypeAttr = attributes.find(
+    (a) => a.key === WORK_TYPE_ATTRIBUTE_KEY || a.name.toLowerCase() === "work type",
+  );
+  return workTypeAttr?.values ?? [];
+}
 
-  cachedWorkTypes = arr;
-  await LocalStorage.setItem(WORK_TYPES_CACHE_KEY, JSON.stringify({ ts: Date.now(), items: arr }));
-  return arr;
+/** Set the value of the instance's Tempo Account attribute, if it has one */
+export async function withAccountAttribute(
+  values: WorkAttributeValue[],
+  accountKey: string | undefined,
+): Promise<WorkAttributeValue[]> {
+  if (!accountKey) return values;
+  const accountAttr = (await getWorkAttributes()).find((a) => a.type === "ACCOUNT");
+  if (!accountAttr) return values;
+  return [...values.filter((v) => v.key !== accountAttr.key), { key: accountAttr.key, value: accountKey }];
 }
 
-export async function createWorklog(params: {
+export interface WorklogParams {
   issueId: string;
   timeSpentSeconds: number;
+  /** Defaults to the full duration on Tempo's side when omitted */
+  billableSeconds?: number;
+  /** New remaining estimate for the issue; Tempo reduces it automatically when omitted */
+  remainingEstimateSeconds?: number;
   startDate: string;
   startTime?: string;
   description?: string;
-  workTypeValue: string;
-}): Promise<TempoWorklog> {
-  const authorAccountId = await jiraAccountId();
+  attributes: WorkAttributeValue[];
+}
 
-  const body = {
+function buildWorklogBody(params: WorklogParams, authorAccountId: string) {
+  return {
     issueId: Number(params.issueId),
     timeSpentSeconds: params.timeSpentSeconds,
     startDate: params.startDate,
     authorAccountId,
-    attributes: [
-      {
-        key: "_WorkType_",
-        value: params.workTypeValue,
-      },
-    ],
+    ...(params.billableSeconds !== undefined ? { billableSeconds: params.billableSeconds } : {}),
+    ...(params.remainingEstimateSeconds !== undefined
+      ? { remainingEstimateSeconds: params.remainingEstimateSeconds }
+      : {}),
+    attributes: params.attributes.filter((a) => a.value !== ""),
     ...(params.startTime ? { startTime: params.startTime } : {}),
     ...(params.description ? { description: params.description } : {}),
   };
+}
 
-  const res = await tempoFetch(`/worklogs`, {
-    method: "POST",
-    body: JSON.stringify(body),
-  });
+const WORKLOG_PAGE_LIMIT = 1000;
 
-  const schema = z.object({
-    tempoWorklogId: z.number(),
-  });
-  const json = schema.parse(await res.json());
-  return json as unknown as TempoWorklog;
+interface TempoPage<T> {
+  metadata?: { count?: number; offset?: number; limit?: number; next?: string };
+  results?: T[];
 }
 
-export async function getMyWorklogs(from: string, to: string): Promise<TempoWorklog[]> {
+/**
+ * Stream the current user's worklogs one page at a time, following `metadata.next` (or offset/limit when
+ * Tempo omits the link) until every result in the range has been read.
+ */
+async function* iterateTempoWorklogs(from: string, to: string): AsyncGenerator<TempoWorklog[]> {
   const accountId = await jiraAccountId();
-  const res = await tempoFetch(
-    `/worklogs/user/${accountId}?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`,
-    { method: "GET" }
-  );
+  const pagePath = (offset: number) =>
+    `/worklogs/user/${accountId}?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}` +
+    `&offset=${offset}&limit=${WORKLOG_PAGE_LIMIT}`;
 
-  const parsed = (await res.json()) as { results?: TempoWorklog[] } | TempoWorklog[];
-  const arr = Array.isArray(parsed) ? parsed : (parsed.results ?? []);
-  return arr as TempoWorklog[];
+  let offset = 0;
+  let next: string | undefined = pagePath(offset);
+
+  while (next) {
+    const res = await tempoFetch(next, { method: "GET" });
+    const parsed = (await res.json()) as TempoPage<unknown> | unknown[];
+
+    if (Array.isArray(parsed)) {
+      yield parseTempoWorklogs(parsed);
+      return;
+    }
+
+    const page = parseTempoWorklogs(parsed.results ?? []);
+    yield page;
+
+    offset += page.length;
+    const limit = parsed.metadata?.limit ?? WORKLOG_PAGE_LIMIT;
+    if (parsed.metadata?.next) {
+      next = parsed.metadata.next;
+    } else if (page.length > 0 && page.length >= limit) {
+      next = pagePath(offset);
+    } else {
+      next = undefined;
+    }
+  }
+}
+
+const tempoWorklogBackend: WorklogBackend = {
+  id: "tempo",
+
+  async createWorklog(params) {
+    await assertTimesheetOpen(params.startDate);
+    const authorAccountId = await jiraAccountId();
+
+    const res = await tempoFetch(`/worklogs`, {
+      method: "POST",
+      body: JSON.stringify(buildWorklogBody(params, authorAccountId)),
+    });
+    return parseTempoWorklog(await res.json());
+  },
+
+  async updateWorklog(worklog, params) {
+    // Moving a worklog out of a locked period changes that period too
+    await assertTimesheetOpen(worklog.startDate, "changing worklogs");
+    await assertTimesheetOpen(params.startDate);
+    const authorAccountId = await jiraAccountId();
+
+    const res = await tempoFetch(`/worklogs/${worklog.tempoWorklogId}`, {
+      method: "PUT",
+      body: JSON.stringify(buildWorklogBody(params, authorAccountId)),
+    });
+    return parseTempoWorklog(await res.json());
+  },
+
+  async deleteWorklog(worklog) {
+    await tempoFetch(`/worklogs/${worklog.tempoWorklogId}`, { method: "DELETE" });
+  },
+
+  iterateMyWorklogs: iterateTempoWorklogs,
+};
+
+function activeBackend(): WorklogBackend {
+  return getWorklogBackendId() === "jira" ? jiraWorklogBackend : tempoWorklogBackend;
+}
+
+export async function createWorklog(params: WorklogParams): Promise<TempoWorklog> {
+  const worklog = await activeBackend().createWorklog(params);
+  await invalidateWorklogCache();
+  return worklog;
+}
+
+/** Replace an existing worklog. Tempo's PUT overwrites every field, so pass the full worklog. */
+export async function updateWorklog(
+  worklog: Pick<TempoWorklog, "tempoWorklogId" | "startDate">,
+  params: WorklogParams,
+): Promise<TempoWorklog> {
+  const updated = await activeBackend().updateWorklog(worklog, params);
+  await invalidateWorklogCache();
+  return updated;
+}
+
+export async function deleteWorklog(worklog: Pick<TempoWorklog, "tempoWorklogId" | "issue">): Promise<void> {
+  await activeBackend().deleteWorklog(worklog);
+  await invalidateWorklogCache();
+}
+
+/** Stream the current user's worklogs in the range from the configured backend, one page at a time */
+export function iterateMyWorklogs(from: string, to: string): AsyncGenerator<TempoWorklog[]> {
+  return activeBackend().iterateMyWorklogs(from, to);
+}
+
+export interface WorklogFetchOptions {
+  /** Called after each page with the number of worklogs read so far */
+  onProgress?: (loaded: number) => Promise<void> | void;
+}
+
+/** Fetch the range from the worklog backend and refresh the shared worklog cache with the result */
+export async function getMyWorklogs(
+  from: string,
+  to: string,
+  options: WorklogFetchOptions = {},
+): Promise<TempoWorklog[]> {
+  const startedAt = Date.now();
+  const all: TempoWorklog[] = [];
+  for await (const page of iterateMyWorklogs(from, to)) {
+    all.push(...page);
+    await options.onProgress?.(all.length);
+  }
+  const resolved = await resolveWorklogIssues(all);
+  await writeCachedWorklogs(from, to, resolved, startedAt);
+  return resolved;
+}
+
+/** Like getMyWorklogs, but answers from the shared cache while it is younger than `maxAgeMs` */
+export async function getMyWorklogsCached(
+  from: string,
+  to: string,
+  options: WorklogFetchOptions & { maxAgeMs?: number } = {},
+): Promise<TempoWorklog[]> {
+  const cached = await readCachedWorklogs(from, to);
+  if (cached && isCacheFresh(cached, options.maxAgeMs)) {
+    return cached.worklogs;
+  }
+  return getMyWorklogs(from, to, options);
 }
@@ -0,0 +1,31 @@
+import { getPreferenceValues } from "@raycast/api";
+import type { TempoWorklog } from "../types";
+import type { WorklogParams } from "./tempo";
+
+export type WorklogBackendId = "tempo" | "jira";
+
+/** Where worklogs are created, listed, edited and deleted */
+export interface WorklogBackend {
+  id: WorklogBackendId;
+  createWorklog(params: WorklogParams): Promise<TempoWorklog>;
+  updateWorklog(
+    worklog: Pick<TempoWorklog, "tempoWorklogId" | "startDate">,
+    params: WorklogParams,
+  ): Promise<TempoWorklog>;
+  deleteWorklog(worklog: Pick<TempoWorklog, "tempoWorklogId" | "issue">): Promise<void>;
+  /** The current user's worklogs in the date range, one page at a time */
+  iterateMyWorklogs(from: string, to: string): AsyncGenerator<TempoWorklog[]>;
+}
+
+export function getWorklogBackendId(): WorklogBackendId {
+  const { worklogBackend } = getPreferenceValues<{ worklogBackend?: WorklogBackendId }>();
+  return worklogBackend === "jira" ? "jira" : "tempo";
+}
+
+/**
+ * Whether Tempo is installed for this site. Work attributes, accounts, schedules, approvals, periods and
+ * Planner allocations only exist in Tempo and are skipped when worklogs go straight to Jira.
+ */
+export function isTempoBackend(): boolean {
+  return getWorklogBackendId() === "tempo";
+}
@@ -0,0 +1,69 @@
+import { LocalStorage } from "@raycast/api";
+import type { TempoWorklog } from "../types";
+import { getWorklogBackendId } from "./worklog-backend";
+
+const WORKLOG_CACHE_KEY = "tempo.worklogs.cache.v1";
+const WORKLOG_CACHE_INVALIDATED_KEY = "tempo.worklogs.cache.invalidated-at";
+const MAX_CACHED_RANGES = 30;
+
+/** How long a cached range is served without asking Tempo again */
+export const WORKLOG_CACHE_FRESH_MS = 1000 * 60 * 5;
+
+export interface CachedWorklogs {
+  from: string;
+  to: string;
+  fetchedAt: number;
+  worklogs: TempoWorklog[];
+}
+
+type WorklogCache = Record<string, CachedWorklogs>;
+
+const rangeKey = (from: string, to: string) => `${getWorklogBackendId()}:${from}..${to}`;
+
+async function readCache(): Promise<WorklogCache> {
+  const raw = await LocalStorage.getItem<string>(WORKLOG_CACHE_KEY);
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw) as WorklogCache;
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Cached worklogs for exactly this date range, however old */
+export async function readCachedWorklogs(from: string, to: string): Promise<CachedWorklogs | undefined> {
+  return (await readCache())[rangeKey(from, to)];
+}
+
+export function isCacheFresh(entry: CachedWorklogs, maxAgeMs = WORKLOG_CACHE_FRESH_MS): boolean {
+  return Date.now() - entry.fetchedAt < maxAgeMs;
+}
+
+/**
+ * Store a range fetched at `fetchedAt`, dropping the oldest ranges once the cache is full. Results whose
+ * request started before the last invalidation are discarded, since they may miss that change.
+ */
+export async function writeCachedWorklogs(
+  from: string,
+  to: string,
+  worklogs: TempoWorklog[],
+  fetchedAt = Date.now(),
+): Promise<void> {
+  const invalidatedAt = Number((await LocalStorage.getItem<string>(WORKLOG_CACHE_INVALIDATED_KEY)) ?? 0);
+  if (fetchedAt < invalidatedAt) return;
+
+  const cache = await readCache();
+  cache[rangeKey(from, to)] = { from, to, fetchedAt, worklogs };
+
+  const kept = Object.entries(cache)
+    .sort(([, a], [, b]) => b.fetchedAt - a.fetchedAt)
+    .slice(0, MAX_CACHED_RANGES);
+  await LocalStorage.setItem(WORKLOG_CACHE_KEY, JSON.stringify(Object.fromEntries(kept)));
+}
+
+/** Forget every cached range; called whenever a worklog is created, edited or deleted */
+export async function invalidateWorklogCache(): Promise<void> {
+  await LocalStorage.setItem(WORKLOG_CACHE_INVALIDATED_KEY, String(Date.now()));
+  await LocalStorage.removeItem(WORKLOG_CACHE_KEY);
+}
@@ -1,15 +1,35 @@
-import { List, Action, ActionPanel, Icon, getPreferenceValues, Form, Color } from "@raycast/api";
-import { useEffect, useMemo, useState } from "react";
-import { addDays, startOfWeek, format, parseISO, subWeeks } from "date-fns";
-import { createWorklog, getMyWorklogs } from "./api/tempo";
+import {
+  List,
+  Action,
+  ActionPanel,
+  Icon,
+  getPreferenceValues,
+  Form,
+  Color,
+  Keyboard,
+  showToast,
+  Toast,
+  useNavigation,
+} from "@raycast/api";
+import { useMemo, useState } from "react";
+import { addDays, format, parseISO, subWeeks } from "date-fns";
+import { getMyWorklogsCached, getWorkAttributes, withAccountAttribute, type WorklogParams } from "./api/tempo";
+import { createWorklogOrQueue } from "./state/outbox";
+import { useRetryOutboxOnLaunch } from "./hooks/useOutbox";
+import { confirmNotDuplicate, recordCreatedWorklog } from "./utils/duplicate-worklogs";
 import { getIssueIdFromKey } from "./api/jira";
 import { TempoWorklog } from "./types";
-import { formatDuration, formatDurationDetailed, formatTimeOfDay } from "./utils/time-formatting";
+import { formatDuration, formatDurationDetailed } from "./utils/time-formatting";
 import { handleError, showSuccess, showLoading } from "./utils/error-handling";
 import { getIssueKeyError } from "./utils/validation";
-import { useWorkTypes } from "./hooks/useWorkTypes";
+import { useWorkAttributes } from "./hooks/useWorkAttributes";
 import { useTimeline } from "./hooks/useTimeline";
 import { useGitHubPRs } from "./hooks/useGitHubPRs";
+import { useUserSchedule } from "./hooks/useUserSchedule";
+import { useTimesheetApproval } from "./hooks/useTimesheetApproval";
+import { formatApprovalStatus, isApprovalLocked, type TimesheetApproval } from "./api/tempo-approvals";
+import { TimesheetApprovalActions } from "./components/TimesheetApprovalActions";
+import { formatDayScheduleSubtitle, formatLoggedVsRequired, isDayOff, sumRequiredSeconds } from "./utils/schedule";
 import {
   TimeEntryFields,
   parseDurationFromValues,
@@ -17,8 +37,36 @@ import {
   type DurationValues,
   type StartTimeValues,
 } from "./components/TimeEntryFields";
+import {
+  hasAccountAttribute,
+  parseWorkAttributeValues,
+  WorkAttributeFields,
+  type WorkAttributeFormValues,
+} from "./components/WorkAttributeFields";
+import { useIssueAccounts } from "./hooks/useIssueAccounts";
+import { resolveAccountForIssue } from "./state/accounts";
+import { useWorklogs } from "./hooks/useWorklogs";
+import { useWorkTypes } from "./hooks/useWorkTypes";
+import { getWorklogAccessories } from "./utils/worklogs";
+import { useRecentPeriods } from "./hooks/useRecentPeriods";
+import { formatPeriodLabel, formatPeriodRange, periodDates } from "./utils/periods";
+import { BillableField, parseBillableFromValues, type BillableValues } from "./components/BillableField";
+import {
+  RemainingEstimateFields,
+  parseRemainingEstimateFromValues,
+  type RemainingEstimateValues,
+} from "./components/RemainingEstimateFields";
+import { useIssueTimeTracking } from "./hooks/useIssueTimeTracking";
+import { defaultBillableSeconds, sumBillableSeconds } from "./utils/billable";
+import { usePlannedWork, type PlannedWorkItem } from "./hooks/usePlannedWork";
 import { useJqlIssuePicker } from "./hooks/useJqlIssuePicker";
 import { analyzeWorklogPatterns, WorklogPattern } from "./ai/pattern-analyzer";
+import { fetchPastWeeks, HISTORY_CACHE_MAX_AGE_MS } from "./backfill-week/useAISuggestions";
+import { EditWorklogForm } from "./components/EditWorklogForm";
+import { DeleteWorklogAction } from "./components/DeleteWorklogAction";
+import { IssueDropdown } from "./components/IssueDropdown";
+import { useIssueDetails } from "./hooks/useIssueDetails";
+import { getIssueAccessories, getIssueTypeIcon } from "./utils/issues";
 
 enum TimePeriod {
   Last = "last",
@@ -28,17 +76,26 @@ enum TimePeriod {
 
 type TimePeriodString = `${TimePeriod}`;
 
+/** How many periods back from the current one each default-week preference starts */
+const DEFAULT_PERIOD_INDEX: Record<TimePeriodString, number> = {
+  [TimePeriod.This]: 0,
+  [TimePeriod.Last]: 1,
+  [TimePeriod.TwoWeeksAgo]: 2,
+};
+
 export default function BackfillWeek() {
+  useRetryOutboxOnLaunch();
+  const { push } = useNavigation();
   const prefs = getPreferenceValues<{
     backfillDefaultWeek?: TimePeriodString;
     aiProvider?: string;
     aiLookbackWeeks?: string;
     enableGitHubPRs?: boolean;
   }>();
-  const [weekOffset, setWeekOffset] = useState<TimePeriodString>(prefs.backfillDefaultWeek || "twoWeeksAgo");
-  const [days, setDays] = useState<{ date: string }[]>([]);
-  const [weekLogs, setWeekLogs] = useState<Map<string, TempoWorklog[]>>(new Map());
-  const [loading, setLoading] = useState(true);
+  const [periodIndex, setPeriodIndex] = useState(DEFAULT_PERIOD_INDEX[prefs.backfillDefaultWeek || "twoWeeksAgo"]);
+  const { periods, loading: loadingPeriods } = useRecentPeriods(3);
+  const period = periods[periodIndex];
+  const days = useMemo(() => (period ? periodDates(period).map((date) => ({ date })) : []), [period]);
   const [aiSuggestions, setAiSuggestions] = useState<WorklogPattern[]>([]);
   const [, setLoadingSuggestions] = useState(false);
   const [showSuggestions, setShowSuggestions] = useState(false);
@@ -54,49 +111,24 @@ export default function BackfillWeek() {
     loading: loadingGitHub,
     authorized: githubAuthorized,
   } = useGitHubPRs(fromDate, toDate, githubEnabled && showGitHubSuggestions && days.length > 0);
+  const { issues: githubIssues } = useIssueDetails(githubSuggestions.map((s) => s.issueKey));
+  const { schedule } = useUserSchedule(fromDate, toDate);
+  const { approval, reviewerName, reload: reloadApproval } = useTimesheetApproval(fromDate);
+  const { plannedWork, loading: loadingPlans } = usePlannedWork(fromDate, toDate);
+  const { worklogs, loading, revalidate } = useWorklogs(fromDate, toDate);
+  const { workTypes } = useWorkTypes();
+
+  const weekLogs = useMemo(() => {
+    const logsByDate = new Map<string, TempoWorklog[]>();
+    worklogs.forEach((log) => {
+      const existing = logsByDate.get(log.startDate) || [];
+      existing.push(log);
+      logsByDate.set(log.startDate, existing);
+    });
+    return logsByDate;
+  }, [worklogs]);
 
-  useEffect(() => {
-    const base = new Date();
-    if (weekOffset === TimePeriod.Last) {
-      base.setDate(base.getDate() - 7);
-    } else if (weekOffset === TimePeriod.TwoWeeksAgo) {
-      base.setDate(base.getDate() - 14);
-    }
-    const from = startOfWeek(base, { weekStartsOn: 1 });
-    const arr: { date: string }[] = [];
-    for (let i = 0; i < 7; i++) {
-      const d = addDays(from, i);
-      arr.push({ date: d.toISOString().substring(0, 10) });
-    }
-    setDays(arr);
-  }, [weekOffset]);
-
-  useEffect(() => {
-    if (days.length === 0) return;
-    (async () => {
-      try {
-        setLoading(true);
-        const fromDate = days[0].date;
-        const toDate = days[days.length - 1].date;
-        const allLogs = await getMyWorklogs(fromDate, toDate);
-
-        const logsByDate = new Map<string, TempoWorklog[]>();
-        allLogs.forEach((log) => {
-          const existing = logsByDate.get(log.startDate) || [];
-          existing.push(log);
-          logsByDate.set(log.startDate, existing);
-        });
-
-        setWeekLogs(logsByDate);
-      } catch (e) {
-        await handleError(e, "Failed to load logs");
-      } finally {
-        setLoading(false);
-      }
-    })();
-  }, [days]);
-
-  const header = useMemo(() => (weekOffset === "last" ? "Last Week" : "This Week"), [weekOffset]);
+  const header = period ? formatPeriodLabel(period, periodIndex) : "";
 
   const totalWeekSeconds = useMemo(() => {
     let total = 0;
@@ -108,29 +140,85 @@ export default function BackfillWeek() {
     return total;
   }, [weekLogs]);
 
-  const totalWeekFormatted = formatDurationDetailed(totalWeekSeconds);
+  const isPlanLogged = (item: PlannedWorkItem) =>
+    (weekLogs.get(item.date) || []).some((log) => log.issue?.id === item.issueId);
+
+  const plannedVsLogged = useMemo(() => {
+    const byIssue = new Map<number, { issueKey: string; plannedSeconds: number; loggedSeconds: number }>();
+    plannedWork.forEach((item) => {
+      const entry = byIssue.get(item.issueId) ?? { issueKey: item.issueKey, plannedSeconds: 0, loggedSeconds: 0 };
+      entry.plannedSeconds += item.plannedSeconds;
+      byIssue.set(item.issueId, entry);
+    });
+    weekLogs.forEach((logs) => {
+      logs.forEach((log) => {
+        const entry = byIssue.get(log.issue?.id);
+        if (entry) entry.loggedSeconds += log.timeSpentSeconds || 0;
+      });
+    });
+    return Array.from(byIssue.values());
+  }, [plannedWork, weekLogs]);
+
+  const weekBillable = useMemo(() => sumBillableSeconds(Array.from(weekLogs.values()).flat()), [weekLogs]);
+
+  const requiredWeekSeconds = sumRequiredSeconds(
+    schedule,
+    days.map((d) => d.date),
+  );
 
   const refreshLogs = async () => {
     if (days.length === 0) return;
     try {
-      setLoading(true);
-      const fromDate = days[0].date;
-      const toDate = days[days.length - 1].date;
-      const allLogs = await getMyWorklogs(fromDate, toDate);
-
-      const logsByDate = new Map<string, TempoWorklog[]>();
-      allLogs.forEach((log) => {
-        const existing = logsByDate.get(log.startDate) || [];
-        existing.push(log);
-        logsByDate.set(log.startDate, existing);
-      });
-
-      setWeekLogs(logsByDate);
+      await revalidate();
       await showSuccess("Logs refreshed");
     } catch (e) {
       await handleError(e, "Failed to refresh logs");
-    } finally {
-      setLoading(false);
+    }
+  };
+
+  const logPlannedWork = async (item: PlannedWorkItem) => {
+    try {
+      // Use the account the form would preselect; other required attributes need the form itself
+      const workAttributes = await getWorkAttributes();
+      const accountKey = hasAccountAttribute(workAttributes) ? await resolveAccountForIssue(item.issueKey) : undefined;
+      const attributes = await withAccountAttribute([], accountKey);
+      const missing = workAttributes.filter((a) => a.required && !attributes.some((v) => v.key === a.key));
+      if (missing.length > 0) {
+        push(
+          <LogWorkForm
+            date={item.date}
+            onSuccess={refreshLogs}
+            prefilledIssueKey={item.issueKey}
+            prefilledDurationSeconds={item.plannedSeconds}
+            prefilledSource="plan"
+          />,
+        );
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Fill in required work attributes",
+          message: missing.map((a) => a.name).join(", "),
+        });
+        return;
+      }
+
+      const params: WorklogParams = {
+        issueId: String(item.issueId),
+        timeSpentSeconds: item.plannedSeconds,
+        billableSeconds: defaultBillableSeconds(item.issueKey, item.plannedSeconds),
+        startDate: item.date,
+        startTime: item.startTime ?? "09:00:00",
+        description: item.description,
+        attributes,
+      };
+      if (!(await confirmNotDuplicate(params))) return;
+
+      await showLoading("Logging planned time…");
+      if (!(await createWorklogOrQueue(params, item.issueKey))) return;
+      recordCreatedWorklog(params);
+      await refreshLogs();
+      await showSuccess(`Logged ${formatDuration(item.plannedSeconds)} to ${item.issueKey}`, item.date);
+    } catch (e) {
+      await handleError(e, "Failed to log planned time");
     }
   };
 
@@ -152,7 +240,7 @@ export default function BackfillWeek() {
       for (let i = 1; i <= lookbackWeeks * 2; i++) {
         const weekStart = format(subWeeks(new Date(targetWeekStart), i), "yyyy-MM-dd");
         const weekEnd = format(addDays(new Date(weekStart), 6), "yyyy-MM-dd");
-        const logs = await getMyWorklogs(weekStart, weekEnd);
+        const logs = await getMyWorklogsCached(weekStart, weekEnd, { maxAgeMs: HISTORY_CACHE_MAX_AGE_MS });
 
         if (logs.length > 0) {
           lastLoggedWeekStart = weekStart;
@@ -171,16 +259,9 @@ export default function BackfillWeek() {
         return;
       }
 
-      const pastWeeks: TempoWorklog[][] = [];
-
-      for (let i = 0; i < lookbackWeeks; i++) {
-        const weekStart = format(subWeeks(new Date(lastLoggedWeekStart), i), "yyyy-MM-dd");
-        const weekEnd = format(addDays(new Date(weekStart), 6), "yyyy-MM-dd");
-        const logs = await getMyWorklogs(weekStart, weekEnd);
-        if (logs.length > 0) {
-          pastWeeks.push(logs);
-        }
-      }
+      const pastWeeks = await fetchPastWeeks(lastLoggedWeekStart, lookbackWeeks, (loaded) =>
+        showLoading("Loading past worklogs...", `${loaded} worklogs loaded`),
+      );
 
       const totalLogs = pastWeeks.reduce((sum, week) => sum + week.length, 0);
 
@@ -222,12 +303,66 @@ export default function BackfillWeek() {
   };
 
   return (
-    <List isLoading={loading || loadingGitHub} searchBarPlaceholder="View and manage your work logs">
-      <List.Dropdown tooltip="Week" storeValue onChange={(v) => setWeekOffset(v as TimePeriodString)}>
-        <List.Dropdown.Item title="This Week" value={TimePeriod.This} />
-        <List.Dropdown.Item title="Last Week" value={TimePeriod.Last} />
-        <List.Dropdown.Item title="Two Weeks Ago" value={TimePeriod.TwoWeeksAgo} />
-      </List.Dropdown>
+    <List
+      isLoading={loading || loadingPeriods || loadingGitHub || loadingPlans}
+      navigationTitle={period ? `${header} · ${formatPeriodRange(period)}` : undefined}
+      searchBarPlaceholder="View and manage your work logs"
+      searchBarAccessory={
+        <List.Dropdown
+          tooltip="Timesheet Period"
+          value={String(periodIndex)}
+          onChange={(v) => setPeriodIndex(Number(v))}
+        >
+          {periods.map((p, i) => (
+            <List.Dropdown.Item
+              key={p.from}
+              title={`${formatPeriodLabel(p, i)} · ${formatPeriodRange(p)}`}
+              value={String(i)}
+            />
+          ))}
+        </List.Dropdown>
+      }
+    >
+      {/* Tempo Planner Section */}
+      {plannedWork.length > 0 && (
+        <List.Section title="📅 Planned Work" subtitle={`${plannedWork.length} planned allocations`}>
+          {plannedWork.map((item) => {
+            const logged = isPlanLogged(item);
+            return (
+              <List.Item
+                key={`${item.planId}-${item.date}`}
+                icon={logged ? { source: Icon.CheckCircle, tintColor: Color.Green } : Icon.Calendar}
+                title={item.issueKey}
+                subtitle={item.issueSummary || item.description || ""}
+                accessories={[
+                  { text: format(parseISO(item.date + "T12:00:00"), "EEE, MMM d") },
+                  { text: formatDuration(item.plannedSeconds) },
+                  ...(logged ? [{ tag: { value: "Logged", color: Color.Green } }] : []),
+                ]}
+                actions={
+                  <ActionPanel>
+                    <Action title="Log Planned Time" icon={Icon.Plus} onAction={() => logPlannedWork(item)} />
+                    <Action.Push
+                      title="Log with Details"
+                      icon={Icon.Pencil}
+                      target={
+                        <LogWorkForm
+                          date={item.date}
+                          onSuccess={refreshLogs}
+                          prefilledIssueKey={item.issueKey}
+                          prefilledDurationSeconds={item.plannedSeconds}
+                          prefilledSource="plan"
+                        />
+                      }
+                    />
+                    <Action.CopyToClipboard title="Copy Issue Key" content={item.issueKey} icon={Icon.Clipboard} />
+                  </ActionPanel>
+                }
+              />
+            );
+          })}
+        </List.Section>
+      )}
 
       {/* GitHub PR Suggestions Section */}
       {githubEnabled && showGitHubSuggestions && githubSuggestions.length > 0 && (
@@ -235,14 +370,18 @@ export default function BackfillWeek() {
           {githubSuggestions.map((suggestion) => {
             const mostRelevantRef = suggestion.references[0];
             const dateStr = suggestion.mostRecentDate ? format(parseISO(suggestion.mostRecentDate), "MMM d") : "";
+            const refTitle = mostRelevantRef.prTitle || mostRelevantRef.commitMessage?.split("\n")[0] || "";
+            const issue = githubIssues.get(suggestion.issueKey);
 
             return (
               <List.Item
                 key={suggestion.issueKey}
-                icon={Icon.CodeBlock}
+                icon={issue ? getIssueTypeIcon(issue) : Icon.CodeBlock}
                 title={suggestion.issueKey}
-                subtitle={mostRelevantRef.prTitle || mostRelevantRef.commitMessage?.split("\n")[0] || ""}
+                subtitle={issue?.summary ?? refTitle}
+                keywords={[refTitle]}
                 accessories={[
+                  ...(issue ? getIssueAccessories(issue) : []),
                   { text: dateStr },
                   {
                     tag: { value: `${suggestion.prCount} PR${suggestion.prCount !== 1 ? "s" : ""}`, color: Color.Blue },
@@ -322,6 +461,7 @@ export default function BackfillWeek() {
                         date={days[0].date}
                         onSuccess={refreshLogs}
                         prefilledIssueKey={suggestion.issueKey}
+                        prefilledSource="ai"
                       />
                     }
                   />
@@ -339,23 +479,39 @@ export default function BackfillWeek() {
         </List.Section>
       )}
 
+      {approval && (
+        <List.Section title="Timesheet">
+          <List.Item
+            title={`Approval: ${formatApprovalStatus(approval.status)}`}
+            subtitle={`${approval.period.from} – ${approval.period.to}`}
+            icon={approvalIcon(approval)}
+            accessories={[
+              ...(approval.comment ? [{ icon: Icon.SpeechBubble, text: approval.comment }] : []),
+              ...(reviewerName ? [{ icon: Icon.Person, text: reviewerName, tooltip: "Reviewer" }] : []),
+            ]}
+            actions={
+              <ActionPanel>
+                <TimesheetApprovalActions approval={approval} onChange={reloadApproval} />
+                <Action title="Refresh Approval Status" icon={Icon.ArrowClockwise} onAction={reloadApproval} />
+              </ActionPanel>
+            }
+          />
+        </List.Section>
+      )}
+
       {days.map((d) => {
         const dayLogs = weekLogs.get(d.date) || [];
         const dayTotal = dayLogs.reduce((acc, log) => acc + (log.timeSpentSeconds || 0), 0);
-        const dayFormatted = formatDurationDetailed(dayTotal);
+        const daySchedule = schedule.get(d.date);
         const dayName = format(parseISO(d.date + "T12:00:00"), "EEEE, MMM d");
 
         return (
-          <List.Section
-            key={d.date}
-            title={dayName}
-            subtitle={dayLogs.length > 0 ? `${dayFormatted} logged` : "No work logged"}
-          >
+          <List.Section key={d.date} title={dayName} subtitle={formatDayScheduleSubtitle(dayTotal, daySchedule)}>
             {dayLogs.length === 0 ? (
               <List.Item
                 title="No work logged"
                 subtitle="Press Enter to add a work log"
-                icon={Icon.Circle}
+                icon={isDayOff(daySchedule) ? Icon.Moon : Icon.Circle}
                 accessories={[{ text: d.date }]}
                 actions={
                   <ActionPanel>
@@ -386,15 +542,13 @@ export default function BackfillWeek() {
               />
             ) : (
               dayLogs.map((log, idx) => {
-                const logFormatted = formatDurationDetailed(log.timeSpentSeconds);
-                const timeOfDay = formatTimeOfDay(log.startTime);
                 return (
                   <List.Item
                     key={`${log.tempoWorklogId}-${idx}`}
                     icon={Icon.Checkmark}
                     title={log.issue?.key || `Issue #${log.issue?.id}`}
                     subtitle={log.description || "No description"}
-                    accessories={[{ text: logFormatted }, { text: timeOfDay ? `@ ${timeOfDay}` : "" }]}
+                    accessories={getWorklogAccessories(log, workTypes)}
                     actions={
                       <ActionPanel>
                         <Action.Push
@@ -402,7 +556,18 @@ export default function BackfillWeek() {
                           icon={Icon.Plus}
                           target={<LogWorkForm date={d.date} onSuccess={refreshLogs} />}
                         />
-                        <Action.Push title="View Day Detail" icon={Icon.Eye} target={<DayDetail date={d.date} />} />
+                        <Action.Push
+                          title="Edit Worklog"
+                          icon={Icon.Pencil}
+                          target={<EditWorklogForm worklog={log} onSuccess={refreshLogs} />}
+                          shortcut={Keyboard.Shortcut.Common.Edit}
+                        />
+                        <DeleteWorklogAction worklog={log} onDeleted={refreshLogs} />
+                        <Action.Push
+                          title="View Day Detail"
+                          icon={Icon.Eye}
+                          target={<DayDetail date={d.date} onChange={refreshLogs} />}
+                        />
                         {githubEnabled && githubAuthorized && !showGitHubSuggestions && (
                           <Action
                             title="Show GitHub Pr Suggestions"
@@ -430,38 +595,71 @@ export default function BackfillWeek() {
         );
       })}
 
-      <List.Section title="Week Summary">
-        <List.Item title={`Total for ${header}`} subtitle={`${totalWeekFormatted} logged`} icon={Icon.BarChart} />
+      <List.Section title="Summary" subtitle={period ? formatPeriodRange(period) : undefined}>
+        <List.Item
+          title={`Total for ${header}`}
+          subtitle={formatLoggedVsRequired(totalWeekSeconds, requiredWeekSeconds)}
+          icon={Icon.BarChart}
+        />
+        <List.Item
+          title="Billable"
+          subtitle={`${formatDuration(weekBillable.billableSeconds)} billable · ${formatDuration(
+            weekBillable.nonBillableSeconds,
+          )} non-billable`}
+          icon={Icon.Coins}
+        />
+        {plannedVsLogged.map((entry) => (
+          <List.Item
+            key={entry.issueKey}
+            title={entry.issueKey}
+            subtitle={`${formatDuration(entry.loggedSeconds)} logged / ${formatDuration(entry.plannedSeconds)} planned`}
+            icon={entry.loggedSeconds >= entry.plannedSeconds ? Icon.CheckCircle : Icon.Calendar}
+            accessories={
+              entry.loggedSeconds < entry.plannedSeconds
+                ? [{ text: `${formatDuration(entry.plannedSeconds - entry.loggedSeconds)} unlogged` }]
+                : []
+            }
+          />
+        ))}
       </List.Section>
     </List>
   );
 }
 
-function DayDetail({ date }: { date: string }) {
-  const [logs, setLogs] = useState<TempoWorklog[]>([]);
-  const [loading, setLoading] = useState(true);
+function approvalIcon(approval: TimesheetApproval) {
+  if (approval.status === "APPROVED") return { source: Icon.CheckCircle, tintColor: Color.Green };
+  if (approval.status === "REJECTED") return { source: Icon.XMarkCircle, tintColor: Color.Red };
+  if (isApprovalLocked(approval)) return { source: Icon.Lock, tintColor: Color.Orange };
+  return Icon.Circle;
+}
 
-  useEffect(() => {
-    (async () => {
-      try {
-        const wl = await getMyWorklogs(date, date);
-        setLogs(wl);
-      } catch (e) {
-        await handleError(e, "Failed to load logs");
-      } finally {
-        setLoading(false);
-      }
-    })();
-  }, [date]);
+function DayDetail({ date, onChange }: { date: string; onChange?: () => Promise<void> }) {
+  const { worklogs: logs, loading, revalidate } = useWorklogs(date, date);
+  const { workTypes } = useWorkTypes();
+  const { schedule } = useUserSchedule(date, date);
+
+  const load = async () => {
+    try {
+      await revalidate();
+    } catch (e) {
+      await handleError(e, "Failed to load logs");
+    }
+  };
+
+  const reload = async () => {
+    await load();
+    if (onChange) {
+      await onChange();
+    }
+  };
 
   const totalSec = logs.reduce((acc, w) => acc + (w.timeSpentSeconds || 0), 0);
-  const totalFormatted = formatDurationDetailed(totalSec);
 
   return (
     <List isLoading={loading} searchBarPlaceholder="Your work logs for this day">
       <List.Section
         title={`${format(new Date(date), "EEEE, MMM d, yyyy")}`}
-        subtitle={`Total logged: ${totalFormatted}`}
+        subtitle={formatDayScheduleSubtitle(totalSec, schedule.get(date))}
       >
         {logs.length === 0 ? (
           <List.Item
@@ -470,24 +668,37 @@ function DayDetail({ date }: { date: string }) {
             icon={Icon.Circle}
             actions={
               <ActionPanel>
-                <Action.Push title="Add Work Log" icon={Icon.Plus} target={<LogWorkForm date={date} />} />
+                <Action.Push
+                  title="Add Work Log"
+                  icon={Icon.Plus}
+                  target={<LogWorkForm date={date} onSuccess={reload} />}
+                />
               </ActionPanel>
             }
           />
         ) : (
           logs.map((w) => {
-            const logFormatted = formatDurationDetailed(w.timeSpentSeconds);
-            const timeOfDay = formatTimeOfDay(w.startTime);
             return (
               <List.Item
                 key={w.tempoWorklogId}
                 icon={Icon.Checkmark}
                 title={w.issue?.key || `Issue #${w.issue?.id}`}
                 subtitle={w.description || "No description"}
-                accessories={[{ text: logFormatted }, { text: timeOfDay ? `@ ${timeOfDay}` : "" }]}
+                accessories={getWorklogAccessories(w, workTypes)}
                 actions={
                   <ActionPanel>
-                    <Action.Push title="Add Work Log" icon={Icon.Plus} target={<LogWorkForm date={date} />} />
+                    <Action.Push
+                      title="Edit Worklog"
+                      icon={Icon.Pencil}
+                      target={<EditWorklogForm worklog={w} onSuccess={reload} />}
+                      shortcut={Keyboard.Shortcut.Common.Edit}
+                    />
+                    <DeleteWorklogAction worklog={w} onDeleted={reload} />
+                    <Action.Push
+                      title="Add Work Log"
+                      icon={Icon.Plus}
+                      target={<LogWorkForm date={date} onSuccess={reload} />}
+                    />
                   </ActionPanel>
                 }
               />
@@ -499,14 +710,33 @@ function DayDetail({ date }: { date: string }) {
   );
 }
 
+type PrefilledSource = "github" | "plan" | "ai";
+
+const PREFILLED_SOURCE_TITLES: Record<PrefilledSource, string> = {
+  github: "✨ From GitHub PR",
+  plan: "📅 From Tempo Planner",
+  ai: "✨ Suggested",
+};
+
+const PREFILLED_SOURCE_DESCRIPTIONS: Record<PrefilledSource, string> = {
+  github: "was found in your GitHub PRs/commits",
+  plan: "is planned for you in Tempo on this day",
+  ai: "was suggested from your recent work",
+};
+
 function LogWorkForm({
   date,
   onSuccess,
   prefilledIssueKey,
+  prefilledDurationSeconds,
+  prefilledSource = "github",
 }: {
   date: string;
   onSuccess?: () => Promise<void>;
   prefilledIssueKey?: string;
+  prefilledDurationSeconds?: number;
+  /** Where the prefilled issue came from, for the note at the top of the form */
+  prefilledSource?: PrefilledSource;
 }) {
   const {
     jqlQueries,
@@ -528,10 +758,14 @@ function LogWorkForm({
   } = useJqlIssuePicker();
 
   const [manualIssue, setManualIssue] = useState(prefilledIssueKey || "");
-  const [plannedSeconds, setPlannedSeconds] = useState(1800);
+  const [plannedSeconds, setPlannedSeconds] = useState(prefilledDurationSeconds ?? 1800);
   const [plannedStart, setPlannedStart] = useState<string>("09:00:00");
 
-  const { workTypes, loading } = useWorkTypes();
+  const { workAttributes, loading } = useWorkAttributes();
+  const { timeTracking } = useIssueTimeTracking(manualIssue.trim() || selectedIssue);
+  const { accountField, rememberAccount } = useIssueAccounts(manualIssue.trim() || selectedIssue, {
+    enabled: hasAccountAttribute(workAttributes),
+  });
   const {
     timeline,
     conflictSummary,
@@ -546,14 +780,14 @@ function LogWorkForm({
   async function onSubmit(
     values: {
       description?: string;
-      workType?: string;
     } & DurationValues &
-      StartTimeValues,
+      StartTimeValues &
+      BillableValues &
+      RemainingEstimateValues &
+      WorkAttributeFormValues,
   ) {
     try {
-      if (!values.workType) {
-        throw new Error("Work Type is required.");
-      }
+      const attributes = parseWorkAttributeValues(values, workAttributes);
 
       let issueId: string;
       let issueKey: string;
@@ -582,16 +816,23 @@ function LogWorkForm({
 
       const startTime = parseStartTimeFromValues(values);
 
-      await createWorklog({
+      const params: WorklogParams = {
         issueId,
         timeSpentSeconds: seconds,
+        billableSeconds: parseBillableFromValues(values, issueKey, seconds),
+        remainingEstimateSeconds: parseRemainingEstimateFromValues(values, timeTracking, seconds),
         startDate: date,
         startTime: startTime,
         description: values.description,
-        workTypeValue: values.workType,
-      });
+        attributes,
+      };
+      if (!(await confirmNotDuplicate(params))) return;
+
+      if (!(await createWorklogOrQueue(params, issueKey))) return;
+      recordCreatedWorklog(params);
 
       const displayDuration = formatDuration(seconds);
+      await rememberAccount(accountField.value);
       await showSuccess(`Logged ${displayDuration} to ${issueKey}`);
 
       if (onSuccess) {
@@ -642,8 +883,8 @@ function LogWorkForm({
       />
       {prefilledIssueKey && (
         <Form.Description
-          title="✨ From GitHub PR"
-          text={`Issue ${prefilledIssueKey} was found in your GitHub PRs/commits. You can change it below if needed.`}
+          title={PREFILLED_SOURCE_TITLES[prefilledSource]}
+          text={`Issue ${prefilledIssueKey} ${PREFILLED_SOURCE_DESCRIPTIONS[prefilledSource]}. You can change it below if needed.`}
         />
       )}
       <Form.Separator />
@@ -669,11 +910,7 @@ function LogWorkForm({
           onChange={setJqlEditValue}
         />
       ) : null}
-      <Form.Dropdown id="issueKey" title="Issue" value={selectedIssue} onChange={setSelectedIssue} storeValue>
-        {issues.map((i) => (
-          <Form.Dropdown.Item key={i.key} value={i.key} title={`${i.key} — ${i.summary}`} />
-        ))}
-      </Form.Dropdown>
+      <IssueDropdown issues={issues} value={selectedIssue} onChange={setSelectedIssue} storeValue />
       <Form.TextField
         id="manualIssue"
         title="Or enter issue key manually"
@@ -683,18 +920,18 @@ function LogWorkForm({
         error={manualIssueError || undefined}
       />
 
-      <Form.Dropdown id="workType" title="Work Type" storeValue>
-        {workTypes.map((t) => (
-          <Form.Dropdown.Item key={t.value} value={t.value} title={t.label} />
-        ))}
-      </Form.Dropdown>
+      <WorkAttributeFields attributes={workAttributes} account={accountField} />
 
       <TimeEntryFields
         showDuration
         showStartTime
         onDurationChange={(secs) => setPlannedSeconds(secs)}
         onStartTimeChange={(t) => setPlannedStart(t)}
+        defaultDurationSeconds={prefilledDurationSeconds}
+        storeValue={prefilledDurationSeconds === undefined}
       />
+      <BillableField issueKey={manualIssue.trim() || selectedIssue} />
+      <RemainingEstimateFields timeTracking={timeTracking} />
 
       <Form.Separator />
 
@@ -1,9 +1,13 @@
 import { useState } from "react";
-import { format, subWeeks, addDays } from "date-fns";
-import { getMyWorklogs } from "../api/tempo";
+import { format, subWeeks, addDays, differenceInCalendarDays, parseISO } from "date-fns";
+import { getMyWorklogsCached } from "../api/tempo";
+import { TempoWorklog } from "../types";
 import { analyzeWorklogPatterns, WorklogPattern } from "../ai/pattern-analyzer";
 import { showLoading, showSuccess, handleError } from "../utils/error-handling";
 
+/** Past weeks rarely change and edits invalidate the cache anyway, so history may be served for longer */
+export const HISTORY_CACHE_MAX_AGE_MS = 1000 * 60 * 60;
+
 interface UseAISuggestionsProps {
   enabled: boolean;
   weekStartDate: string;
@@ -22,7 +26,7 @@ export function useAISuggestions({ enabled, weekStartDate, lookbackWeeks }: UseA
     for (let i = 1; i <= maxWeeks; i++) {
       const weekStart = format(subWeeks(new Date(targetWeekStart), i), "yyyy-MM-dd");
       const weekEnd = format(addDays(new Date(weekStart), 6), "yyyy-MM-dd");
-      const logs = await getMyWorklogs(weekStart, weekEnd);
+      const logs = await getMyWorklogsCached(weekStart, weekEnd, { maxAgeMs: HISTORY_CACHE_MAX_AGE_MS });
 
       if (logs.length > 0) {
         return { weekStart, weeksChecked: i };
@@ -52,7 +56,9 @@ export function useAISuggestions({ enabled, weekStartDate, lookbackWeeks }: UseA
         return;
       }
 
-      const pastWeeks = await fetchPastWeeks(lastLogged.weekStart, lookbackWeeks);
+      const pastWeeks = await fetchPastWeeks(lastLogged.weekStart, lookbackWeeks, (loaded) =>
+        showLoading("Loading past worklogs...", `${loaded} worklogs loaded`),
+      );
       const totalLogs = pastWeeks.reduce((sum, week) => sum + week.length, 0);
 
       if (pastWeeks.length === 0) {
@@ -101,17 +107,24 @@ export function useAISuggestions({ enabled, weekStartDate, lookbackWeeks }: UseA
   };
 }
 
-async function fetchPastWeeks(lastLoggedWeekStart: string, lookbackWeeks: number) {
-  const pastWeeks = [];
-
-  for (let i = 0; i < lookbackWeeks; i++) {
-    const weekStart = format(subWeeks(new Date(lastLoggedWeekStart), i), "yyyy-MM-dd");
-    const weekEnd = format(addDays(new Date(weekStart), 6), "yyyy-MM-dd");
-    const logs = await getMyWorklogs(weekStart, weekEnd);
-    if (logs.length > 0) {
-      pastWeeks.push(logs);
-    }
+/**
+ * Load `lookbackWeeks` weeks ending with the week starting at `lastLoggedWeekStart` in a single paginated
+ * request (or from the worklog cache), reporting progress per page, and return the non-empty weeks newest first.
+ */
+export async function fetchPastWeeks(
+  lastLoggedWeekStart: string,
+  lookbackWeeks: number,
+  onProgress?: (loaded: number) => Promise<void> | void,
+): Promise<TempoWorklog[][]> {
+  const from = format(subWeeks(new Date(lastLoggedWeekStart), lookbackWeeks - 1), "yyyy-MM-dd");
+  const to = format(addDays(new Date(lastLoggedWeekStart), 6), "yyyy-MM-dd");
+  const weeks: TempoWorklog[][] = Array.from({ length: lookbackWeeks }, () => []);
+
+  const logs = await getMyWorklogsCached(from, to, { maxAgeMs: HISTORY_CACHE_MAX_AGE_MS, onProgress });
+  for (const log of logs) {
+    const weekIndex = Math.floor(differenceInCalendarDays(parseISO(log.startDate), parseISO(from)) / 7);
+    weeks[lookbackWeeks - 1 - weekIndex]?.push(log);
   }
 
-  return pastWeeks;
+  return weeks.filter((week) => week.length > 0);
 }
@@ -5,9 +5,11 @@ import { getAuthenticatedUser, getUserPRs, getUserCommits, checkTokenScopes } fr
 import { extractJiraFromPR, extractJiraFromCommits, groupJiraReferences } from "./utils/github-jira-extractor";
 import { hasPAT } from "./auth/github-oauth";
 import { handleError, showSuccess } from "./utils/error-handling";
-import { createWorklog } from "./api/tempo";
+import type { WorklogParams } from "./api/tempo";
+import { createWorklogOrQueue } from "./state/outbox";
+import { confirmNotDuplicate, recordCreatedWorklog } from "./utils/duplicate-worklogs";
 import { getIssueIdFromKey } from "./api/jira";
-import { useWorkTypes } from "./hooks/useWorkTypes";
+import { useWorkAttributes } from "./hooks/useWorkAttributes";
 import {
   TimeEntryFields,
   parseDurationFromValues,
@@ -15,6 +17,16 @@ import {
   type DurationValues,
   type StartTimeValues,
 } from "./components/TimeEntryFields";
+import {
+  hasAccountAttribute,
+  parseWorkAttributeValues,
+  WorkAttributeFields,
+  type WorkAttributeFormValues,
+} from "./components/WorkAttributeFields";
+import { useIssueAccounts } from "./hooks/useIssueAccounts";
+import { useIssueDetails } from "./hooks/useIssueDetails";
+import { getIssueAccessories, getIssueTypeIcon } from "./utils/issues";
+import { BillableField, parseBillableFromValues, type BillableValues } from "./components/BillableField";
 
 enum TimePeriod {
   LastWeek = "lastWeek",
@@ -47,6 +59,7 @@ export default function BrowseGitHubPRs() {
   const [loading, setLoading] = useState(true);
   const [authorized, setAuthorized] = useState(false);
   const [debugInfo, setDebugInfo] = useState<string>("");
+  const { issues } = useIssueDetails(suggestions.map((s) => s.issueKey));
 
   useEffect(() => {
     (async () => {
@@ -84,14 +97,19 @@ export default function BrowseGitHubPRs() {
         }
 
         const user = await getAuthenticatedUser();
-        const scopes = await checkTokenScopes();
+        // The scope check is only a diagnostic, so a failure there shouldn't stop the PRs from loading
+        const scopes = await checkTokenScopes().catch((e) => {
+          console.warn(`[Browse PRs] Could not check token scopes:`, e);
+          return null;
+        });
+        const scopeList = scopes ? scopes.join(", ") || "none" : "unknown";
         console.log(`[Browse PRs] Fetching for user: ${user.login}, date range: ${fromDate} to ${toDate}`);
-        console.log(`[Browse PRs] Token has scopes: ${scopes.join(", ") || "none"}`);
+        console.log(`[Browse PRs] Token has scopes: ${scopeList}`);
 
         // Set initial debug info
-        setDebugInfo(`User: ${user.login} | Scopes: ${scopes.join(", ") || "none"} | Date: ${fromDate} to ${toDate}`);
+        setDebugInfo(`User: ${user.login} | Scopes: ${scopeList} | Date: ${fromDate} to ${toDate}`);
 
-        if (!scopes.includes("repo")) {
+        if (scopes && !scopes.includes("repo")) {
           console.warn(`[Browse PRs] WARNING: Token missing 'repo' scope! Please re-authorize.`);
           setDebugInfo(`⚠️ WARNING: Token missing 'repo' scope! User: ${user.login}`);
         }
@@ -105,7 +123,7 @@ export default function BrowseGitHubPRs() {
 
         // Update debug info with API results
         setDebugInfo(
-          `User: ${user.login} | Scopes: ${scopes.join(", ") || "none"} | Found ${prs.length} PRs, ${commits.length} commits | Date: ${fromDate} to ${toDate}`,
+          `User: ${user.login} | Scopes: ${scopeList} | Found ${prs.length} PRs, ${commits.length} commits | Date: ${fromDate} to ${toDate}`,
         );
 
         if (prs.length === 0 && commits.length === 0) {
@@ -149,7 +167,7 @@ export default function BrowseGitHubPRs() {
 
         // Store final debug info
         setDebugInfo(
-          `User: ${user.login} | Scopes: ${scopes.join(", ") || "none"} | Found ${prs.length} PRs, ${commits.length} commits → ${suggestionsList.length} Jira issues | Date: ${fromDate} to ${toDate}`,
+          `User: ${user.login} | Scopes: ${scopeList} | Found ${prs.length} PRs, ${commits.length} commits → ${suggestionsList.length} Jira issues | Date: ${fromDate} to ${toDate}`,
         );
       } catch (e) {
         await handleError(e, "Failed to load GitHub PRs");
@@ -231,14 +249,18 @@ export default function BrowseGitHubPRs() {
       {suggestions.map((suggestion) => {
         const mostRelevantRef = suggestion.references[0];
         const dateStr = suggestion.mostRecentDate ? format(parseISO(suggestion.mostRecentDate), "MMM d, yyyy") : "";
+        const refTitle = mostRelevantRef.prTitle || mostRelevantRef.commitMessage?.split("\n")[0] || "";
+        const issue = issues.get(suggestion.issueKey);
 
         return (
           <List.Item
             key={suggestion.issueKey}
-            icon={Icon.CodeBlock}
+            icon={issue ? getIssueTypeIcon(issue) : Icon.CodeBlock}
             title={suggestion.issueKey}
-            subtitle={mostRelevantRef.prTitle || mostRelevantRef.commitMessage?.split("\n")[0] || ""}
+            subtitle={issue?.summary ?? refTitle}
+            keywords={[refTitle]}
             accessories={[
+              ...(issue ? getIssueAccessories(issue) : []),
               { text: dateStr },
               {
                 tag: { value: `${suggestion.prCount} PR${suggestion.prCount !== 1 ? "s" : ""}`, color: Color.Blue },
@@ -325,20 +347,22 @@ function ViewReferences({
 }
 
 function LogTimeForm({ issueKey }: { issueKey: string }) {
-  const { workTypes, loading: loadingWorkTypes } = useWorkTypes();
+  const { workAttributes, loading: loadingWorkAttributes } = useWorkAttributes();
+  const { accountField, rememberAccount } = useIssueAccounts(issueKey, {
+    enabled: hasAccountAttribute(workAttributes),
+  });
   const [date, setDate] = useState(new Date());
 
   async function onSubmit(
     values: {
       description?: string;
-      workType?: string;
     } & DurationValues &
-      StartTimeValues,
+      StartTimeValues &
+      BillableValues &
+      WorkAttributeFormValues,
   ) {
     try {
-      if (!values.workType) {
-        throw new Error("Work Type is required.");
-      }
+      const attributes = parseWorkAttributeValues(values, workAttributes);
 
       const issueId = await getIssueIdFromKey(issueKey);
       if (!issueId) throw new Error("Issue not found.");
@@ -351,15 +375,21 @@ function LogTimeForm({ issueKey }: { issueKey: string }) {
       const startTime = parseStartTimeFromValues(values);
       const startDate = format(date, "yyyy-MM-dd");
 
-      await createWorklog({
+      const params: WorklogParams = {
         issueId,
         timeSpentSeconds: seconds,
+        billableSeconds: parseBillableFromValues(values, issueKey, seconds),
         startDate,
         startTime,
         description: values.description,
-        workTypeValue: values.workType,
-      });
+        attributes,
+      };
+      if (!(await confirmNotDuplicate(params))) return;
+
+      if (!(await createWorklogOrQueue(params, issueKey))) return;
+      recordCreatedWorklog(params);
 
+      await rememberAccount(accountField.value);
       await showSuccess(`Logged time to ${issueKey}`);
     } catch (e) {
       await handleError(e, "Failed to log time");
@@ -368,7 +398,7 @@ function LogTimeForm({ issueKey }: { issueKey: string }) {
 
   return (
     <Form
-      isLoading={loadingWorkTypes}
+      isLoading={loadingWorkAttributes}
       actions={
         <ActionPanel>
           <Action.SubmitForm title="Log Time" onSubmit={onSubmit} />
@@ -383,13 +413,10 @@ function LogTimeForm({ issueKey }: { issueKey: string }) {
 
       <Form.DatePicker id="date" title="Date" value={date} onChange={(newDate) => newDate && setDate(newDate)} />
 
-      <Form.Dropdown id="workType" title="Work Type" storeValue>
-        {workTypes.map((t) => (
-          <Form.Dropdown.Item key={t.value} value={t.value} title={t.label} />
-        ))}
-      </Form.Dropdown>
+      <WorkAttributeFields attributes={workAttributes} account={accountField} />
 
       <TimeEntryFields showDuration showStartTime />
+      <BillableField issueKey={issueKey} />
 
       <Form.Separator />
       <Form.TextArea id="description" title="Description" placeholder="What did you work on?" />
@@ -0,0 +1,46 @@
+import { Form } from "@raycast/api";
+import { isTempoBackend } from "../api/worklog-backend";
+import { defaultBillableSeconds, isNonBillableIssue } from "../utils/billable";
+import { formatDurationInput, parseDuration } from "./TimeEntryFields";
+
+interface BillableFieldProps {
+  issueKey?: string;
+  /** Billable time of an existing worklog; left empty when it matches the logged duration */
+  defaultBillableSeconds?: number;
+}
+
+export interface BillableValues {
+  billable?: string;
+}
+
+export function BillableField({ issueKey, defaultBillableSeconds }: BillableFieldProps) {
+  // Billable time is a Tempo concept; Jira worklogs only record the time spent
+  if (!isTempoBackend()) return null;
+
+  const nonBillable = isNonBillableIssue(issueKey);
+
+  return (
+    <Form.TextField
+      id="billable"
+      title="Billable"
+      placeholder={nonBillable ? "0 (non-billable project)" : "Same as duration"}
+      defaultValue={defaultBillableSeconds !== undefined ? formatDurationInput(defaultBillableSeconds) : undefined}
+      info="Billable part of the logged time, e.g. 1h 30m or 0. Leave empty to use the project default."
+    />
+  );
+}
+
+export function parseBillableFromValues(
+  values: BillableValues,
+  issueKey: string | undefined,
+  timeSpentSeconds: number,
+): number {
+  const input = values.billable?.trim();
+  if (!input) return defaultBillableSeconds(issueKey, timeSpentSeconds);
+
+  const seconds = parseDuration(input);
+  if (seconds > timeSpentSeconds) {
+    throw new Error("Billable time can't be more than the logged duration");
+  }
+  return seconds;
+}
@@ -0,0 +1,88 @@
+import { Action, Alert, confirmAlert, Icon, Keyboard, showToast, Toast } from "@raycast/api";
+import { createWorklog, deleteWorklog } from "../api/tempo";
+import { rememberDeletedWorklog, takeDeletedWorklog, UNDO_WINDOW_MS } from "../state/deleted-worklogs";
+import { TempoWorklog } from "../types";
+import { formatDuration } from "../utils/time-formatting";
+import { handleError, showSuccess } from "../utils/error-handling";
+import { getWorklogIssueLabel } from "../utils/worklogs";
+
+export function DeleteWorklogAction({
+  worklog,
+  onDeleted,
+}: {
+  worklog: TempoWorklog;
+  onDeleted?: () => Promise<void>;
+}) {
+  const issueLabel = getWorklogIssueLabel(worklog);
+
+  async function restore() {
+    const entry = await takeDeletedWorklog(worklog.tempoWorklogId);
+    if (!entry) {
+      await handleError(new Error("The undo window has passed"), "Cannot Undo Delete");
+      return;
+    }
+
+    try {
+      await createWorklog(entry.params);
+      await showSuccess(`Restored worklog on ${issueLabel}`);
+      if (onDeleted) {
+        await onDeleted();
+      }
+    } catch (e) {
+      await handleError(e, "Failed to restore worklog");
+    }
+  }
+
+  async function onAction() {
+    const confirmed = await confirmAlert({
+      title: "Delete Worklog?",
+      message: `${formatDuration(worklog.timeSpentSeconds)} on ${issueLabel} (${worklog.startDate}) will be removed from Tempo.`,
+      icon: Icon.Trash,
+      primaryAction: {
+        title: "Delete",
+        style: Alert.ActionStyle.Destructive,
+      },
+    });
+
+    if (!confirmed) {
+      return;
+    }
+
+    try {
+      await showToast({ style: Toast.Style.Animated, title: "Deleting worklog…" });
+      await deleteWorklog(worklog);
+      await rememberDeletedWorklog(worklog);
+
+      if (onDeleted) {
+        await onDeleted();
+      }
+
+      // Shown last so a refresh toast from onDeleted doesn't replace the undo action
+      await showToast({
+        style: Toast.Style.Success,
+        title: `Deleted worklog on ${issueLabel}`,
+        message: `Undo available for ${UNDO_WINDOW_MS / 1000}s`,
+        primaryAction: {
+          title: "Undo",
+          shortcut: { modifiers: ["cmd"], key: "z" },
+          onAction: async (toast) => {
+            await toast.hide();
+            await restore();
+          },
+        },
+      });
+    } catch (e) {
+      await handleError(e, "Failed to delete worklog");
+    }
+  }
+
+  return (
+    <Action
+      title="Delete Worklog"
+      icon={Icon.Trash}
+      style={Action.Style.Destructive}
+      shortcut={Keyboard.Shortcut.Common.Remove}
+      onAction={onAction}
+    />
+  );
+}
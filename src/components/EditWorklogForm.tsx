@@ -0,0 +1,210 @@
+import { Action, ActionPanel, Form, Icon } from "@raycast/api";
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { getIssueIdFromKey } from "../api/jira";
+import { updateWorklog } from "../api/tempo";
+import { isTempoBackend } from "../api/worklog-backend";
+import { useJqlIssuePicker } from "../hooks/useJqlIssuePicker";
+import { useWorkAttributes } from "../hooks/useWorkAttributes";
+import { useTimeline } from "../hooks/useTimeline";
+import { TempoWorklog } from "../types";
+import { formatDuration } from "../utils/time-formatting";
+import { handleError, showLoading, showSuccess } from "../utils/error-handling";
+import { getIssueKeyError } from "../utils/validation";
+import { getWorklogAttributeValue, getWorklogIssueLabel } from "../utils/worklogs";
+import {
+  parseDurationFromValues,
+  parseStartTimeFromValues,
+  TimeEntryFields,
+  type DurationValues,
+  type StartTimeValues,
+} from "./TimeEntryFields";
+import { parseWorkAttributeValues, WorkAttributeFields, type WorkAttributeFormValues } from "./WorkAttributeFields";
+import { useIssueAccounts } from "../hooks/useIssueAccounts";
+import { BillableField, parseBillableFromValues, type BillableValues } from "./BillableField";
+
+export function EditWorklogForm({ worklog, onSuccess }: { worklog: TempoWorklog; onSuccess?: () => Promise<void> }) {
+  const { jqlQueries, selectedJql, setSelectedJql, issues, selectedIssue, setSelectedIssue, loadingIssues } =
+    useJqlIssuePicker({ restoreLastIssue: false, autoLoadIssues: isTempoBackend() });
+
+  const [manualIssue, setManualIssue] = useState("");
+  const [date, setDate] = useState<Date>(parseISO(worklog.startDate + "T12:00:00"));
+  const [plannedSeconds, setPlannedSeconds] = useState(worklog.timeSpentSeconds);
+  const [plannedStart, setPlannedStart] = useState(worklog.startTime || "09:00:00");
+
+  const currentIssueLabel = getWorklogIssueLabel(worklog);
+  // Jira can't move a worklog to another issue, so only Tempo worklogs can change issue
+  const canChangeIssue = isTempoBackend();
+  const startDate = format(date, "yyyy-MM-dd");
+
+  const { workAttributes, loading: loadingWorkAttributes } = useWorkAttributes();
+  const accountAttributeKey = workAttributes.find((a) => a.type === "ACCOUNT")?.key;
+  const { accountField } = useIssueAccounts(manualIssue.trim() || selectedIssue || String(worklog.issue.id), {
+    enabled: accountAttributeKey !== undefined,
+    preferredAccountKey: accountAttributeKey ? getWorklogAttributeValue(worklog, accountAttributeKey) : undefined,
+  });
+  const {
+    timeline,
+    conflictSummary,
+    loading: loadingTimeline,
+    reload: reloadTimeline,
+  } = useTimeline({
+    date: startDate,
+    plannedDuration: plannedSeconds,
+    plannedStart,
+    issueKey: manualIssue.trim() || selectedIssue || currentIssueLabel,
+    excludeWorklogId: worklog.tempoWorklogId,
+  });
+
+  async function onSubmit(
+    values: {
+      description?: string;
+    } & DurationValues &
+      StartTimeValues &
+      BillableValues &
+      WorkAttributeFormValues,
+  ) {
+    try {
+      const attributes = parseWorkAttributeValues(values, workAttributes);
+
+      let issueId = String(worklog.issue.id);
+      let issueKey = currentIssueLabel;
+
+      if (manualIssue.trim()) {
+        const error = getIssueKeyError(manualIssue.trim());
+        if (error) throw new Error(error);
+        issueId = await getIssueIdFromKey(manualIssue.trim());
+        if (!issueId) throw new Error("Issue not found.");
+        issueKey = manualIssue.trim();
+      } else if (selectedIssue) {
+        issueId = await getIssueIdFromKey(selectedIssue);
+        issueKey = selectedIssue;
+      }
+
+      const seconds = parseDurationFromValues(values);
+      if (seconds === 0) {
+        throw new Error("Duration must be greater than 0");
+      }
+
+      await showLoading("Updating worklog…");
+
+      await updateWorklog(worklog, {
+        issueId,
+        timeSpentSeconds: seconds,
+        billableSeconds: parseBillableFromValues(values, issueKey, seconds),
+        startDate,
+        startTime: parseStartTimeFromValues(values),
+        description: values.description,
+        attributes,
+      });
+
+      await showSuccess(`Updated worklog on ${issueKey}`, `${formatDuration(seconds)} on ${startDate}`);
+
+      reloadTimeline();
+      if (onSuccess) {
+        await onSuccess();
+      }
+    } catch (e) {
+      await handleError(e, "Failed to update worklog");
+    }
+  }
+
+  const manualIssueError = manualIssue.trim() ? getIssueKeyError(manualIssue.trim()) : null;
+
+  return (
+    <Form
+      navigationTitle="Edit Worklog"
+      isLoading={loadingWorkAttributes || loadingIssues || loadingTimeline}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Worklog" icon={Icon.Check} onSubmit={onSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description
+        title="Edit Tempo Worklog"
+        text={
+          canChangeIssue
+            ? `Worklog #${worklog.tempoWorklogId} on ${currentIssueLabel}. Leave the issue fields empty to keep the current issue.`
+            : `Worklog #${worklog.tempoWorklogId} on ${currentIssueLabel}. Jira worklogs can't be moved to another issue.`
+        }
+      />
+      <Form.Separator />
+      {canChangeIssue && (
+        <>
+          <Form.Dropdown
+            id="jql"
+            title="JQL Query"
+            value={selectedJql}
+            onChange={(v) => {
+              setSelectedJql(v);
+              setSelectedIssue("");
+            }}
+          >
+            {jqlQueries.map((q) => (
+              <Form.Dropdown.Item key={q.value} value={q.value} title={q.title + (q.isDefault ? " (Default)" : "")} />
+            ))}
+          </Form.Dropdown>
+          <Form.Dropdown id="issueKey" title="Issue" value={selectedIssue} onChange={setSelectedIssue}>
+            <Form.Dropdown.Item value="" title={`Keep ${currentIssueLabel}`} />
+            {issues.map((i) => (
+              <Form.Dropdown.Item key={i.key} value={i.key} title={`${i.key} — ${i.summary}`} />
+            ))}
+          </Form.Dropdown>
+          <Form.TextField
+            id="manualIssue"
+            title="Or enter issue key manually"
+            value={manualIssue}
+            onChange={setManualIssue}
+            placeholder="e.g. ABC-123"
+            error={manualIssueError || undefined}
+          />
+        </>
+      )}
+
+      <WorkAttributeFields
+        attributes={workAttributes}
+        defaults={worklog.attributes?.values}
+        storeValue={false}
+        account={accountField}
+      />
+
+      <Form.DatePicker
+        id="date"
+        title="Date"
+        type={Form.DatePicker.Type.Date}
+        value={date}
+        onChange={(newDate) => newDate && setDate(newDate)}
+      />
+
+      <TimeEntryFields
+        storeValue={false}
+        defaultDurationSeconds={worklog.timeSpentSeconds}
+        defaultStartTime={worklog.startTime}
+        onDurationChange={(secs) => setPlannedSeconds(secs)}
+        onStartTimeChange={(t) => setPlannedStart(t)}
+      />
+      <BillableField
+        issueKey={manualIssue.trim() || selectedIssue || worklog.issue.key}
+        defaultBillableSeconds={
+          worklog.billableSeconds !== undefined && worklog.billableSeconds !== worklog.timeSpentSeconds
+            ? worklog.billableSeconds
+            : undefined
+        }
+      />
+
+      <Form.Separator />
+
+      {timeline && <Form.Description title="Day Timeline" text={timeline} />}
+      {conflictSummary && <Form.Description title="" text={conflictSummary} />}
+
+      <Form.Separator />
+      <Form.TextArea
+        id="description"
+        title="Description"
+        placeholder="What did you work on?"
+        defaultValue={worklog.description}
+      />
+    </Form>
+  );
+}
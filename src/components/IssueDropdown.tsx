@@ -0,0 +1,96 @@
+import { Form } from "@raycast/api";
+import { useState } from "react";
+import { useIssueSearch } from "../hooks/useIssueSearch";
+import { getIssueTypeIcon, groupIssuesByParent, isGroupingIssuesByParent, type IssueLite } from "../utils/issues";
+
+interface IssueDropdownProps {
+  id?: string;
+  title?: string;
+  /** Issues from the selected JQL query, shown while nothing is typed */
+  issues: IssueLite[];
+  value: string;
+  onChange: (issueKey: string) => void;
+  isLoading?: boolean;
+  storeValue?: boolean;
+  info?: string;
+  /** Title of a leading item with an empty value, for forms where picking an issue is optional */
+  emptyTitle?: string;
+}
+
+function issueTitle(issue: IssueLite, grouped: boolean): string {
+  // Dropdown items have no accessories, so status, assignee and parent go into the title
+  const details = [issue.status, issue.assignee, !grouped && issue.parent ? `in ${issue.parent.key}` : undefined]
+    .filter(Boolean)
+    .join(" · ");
+  return `${issue.key} — ${issue.summary}${details ? ` (${details})` : ""}`;
+}
+
+function IssueItem({ issue, grouped }: { issue: IssueLite; grouped: boolean }) {
+  return (
+    <Form.Dropdown.Item
+      value={issue.key}
+      title={issueTitle(issue, grouped)}
+      icon={getIssueTypeIcon(issue)}
+      keywords={[issue.issueType, issue.priority, issue.parent?.key].filter((k): k is string => !!k)}
+    />
+  );
+}
+
+/**
+ * Issue dropdown listing the JQL query's issues, and searching all of Jira by key or summary once the user
+ * starts typing. A picked search result stays in the list so the selection survives clearing the search.
+ * With the Group Issues by Parent preference on, issues are listed in sections under their epic or parent task.
+ */
+export function IssueDropdown({
+  id = "issueKey",
+  title = "Issue",
+  issues,
+  value,
+  onChange,
+  isLoading,
+  storeValue,
+  info,
+  emptyTitle,
+}: IssueDropdownProps) {
+  const { searchText, setSearchText, results, loading } = useIssueSearch();
+  const [picked, setPicked] = useState<IssueLite | null>(null);
+  const grouped = isGroupingIssuesByParent();
+
+  const searching = searchText.trim().length > 0;
+  const shown = searching ? results : issues;
+  const items = picked && picked.key === value && !shown.some((i) => i.key === picked.key) ? [picked, ...shown] : shown;
+
+  return (
+    <Form.Dropdown
+      id={id}
+      title={title}
+      value={value}
+      onChange={(key) => {
+        const match = results.find((i) => i.key === key);
+        if (match) setPicked(match);
+        onChange(key);
+      }}
+      onSearchTextChange={setSearchText}
+      filtering={false}
+      throttle
+      isLoading={isLoading || loading}
+      placeholder="Type to search Jira issues"
+      storeValue={storeValue}
+      info={info}
+    >
+      {emptyTitle !== undefined && <Form.Dropdown.Item value="" title={emptyTitle} />}
+      {grouped
+        ? groupIssuesByParent(items).map(({ parent, issues: children }) => (
+            <Form.Dropdown.Section
+              key={parent?.key ?? ""}
+              title={parent ? `${parent.key}${parent.summary ? ` — ${parent.summary}` : ""}` : "No Parent"}
+            >
+              {children.map((i) => (
+                <IssueItem key={i.key} issue={i} grouped />
+              ))}
+            </Form.Dropdown.Section>
+          ))
+        : items.map((i) => <IssueItem key={i.key} issue={i} grouped={false} />)}
+    </Form.Dropdown>
+  );
+}
@@ -0,0 +1,84 @@
+import { Form } from "@raycast/api";
+import { useState } from "react";
+import type { IssueTimeTracking } from "../api/jira";
+import { formatDuration } from "../utils/time-formatting";
+import { formatDurationInput, parseDuration } from "./TimeEntryFields";
+
+export type RemainingEstimateMode = "auto" | "set" | "leave";
+
+export interface RemainingEstimateValues {
+  estimateMode?: string;
+  remainingEstimate?: string;
+}
+
+function formatEstimate(seconds?: number): string {
+  return seconds === undefined ? "—" : formatDuration(seconds);
+}
+
+export function RemainingEstimateFields({ timeTracking }: { timeTracking: IssueTimeTracking | null }) {
+  const [mode, setMode] = useState<RemainingEstimateMode>("auto");
+
+  return (
+    <>
+      <Form.Separator />
+      {timeTracking && (
+        <Form.Description
+          title="Estimate"
+          text={
+            `Original ${formatEstimate(timeTracking.originalEstimateSeconds)} · ` +
+            `Spent ${formatEstimate(timeTracking.timeSpentSeconds)} · ` +
+            `Remaining ${formatEstimate(timeTracking.remainingEstimateSeconds)}`
+          }
+        />
+      )}
+      <Form.Dropdown
+        id="estimateMode"
+        title="Remaining Estimate"
+        value={mode}
+        onChange={(v) => setMode(v as RemainingEstimateMode)}
+      >
+        <Form.Dropdown.Item value="auto" title="Adjust automatically" />
+        <Form.Dropdown.Item value="set" title="Set to" />
+        <Form.Dropdown.Item value="leave" title="Leave estimate unchanged" />
+      </Form.Dropdown>
+      {mode === "set" && (
+        <Form.TextField
+          id="remainingEstimate"
+          title="New Remaining Estimate"
+          placeholder="e.g. 2h 30m or 0"
+          defaultValue={
+            timeTracking?.remainingEstimateSeconds !== undefined
+              ? formatDurationInput(timeTracking.remainingEstimateSeconds)
+              : undefined
+          }
+        />
+      )}
+    </>
+  );
+}
+
+/**
+ * The remaining estimate to send with a worklog. "auto" reduces the current estimate by the logged time,
+ * "leave" re-sends the current estimate so Tempo doesn't reduce it, "set" uses the entered value.
+ */
+export function parseRemainingEstimateFromValues(
+  values: RemainingEstimateValues,
+  timeTracking: IssueTimeTracking | null,
+  timeSpentSeconds: number,
+): number | undefined {
+  const current = timeTracking?.remainingEstimateSeconds;
+
+  switch (values.estimateMode) {
+    case "set": {
+      const input = values.remainingEstimate?.trim();
+      if (!input) throw new Error("Enter the new remaining estimate, e.g. 2h or 0");
+      return parseDuration(input);
+    }
+    case "leave":
+      // Sending nothing would let Tempo or Jira reduce the estimate, so wait until the current one is known
+      if (!timeTracking) throw new Error("The issue's current estimate hasn't loaded yet. Try again in a moment.");
+      return current;
+    default:
+      return current === undefined ? undefined : Math.max(0, current - timeSpentSeconds);
+  }
+}
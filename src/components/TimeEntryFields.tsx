@@ -1,5 +1,6 @@
 import { Form, getPreferenceValues } from "@raycast/api";
 import React, { useState } from "react";
+import { formatDuration } from "../utils/time-formatting";
 
 interface TimeEntryFieldsProps {
   showDuration?: boolean;
@@ -8,6 +9,9 @@ interface TimeEntryFieldsProps {
   startTimeLabel?: string;
   onDurationChange?: (seconds: number) => void;
   onStartTimeChange?: (time: string) => void;
+  defaultDurationSeconds?: number;
+  defaultStartTime?: string;
+  storeValue?: boolean;
 }
 
 interface Preferences {
@@ -25,14 +29,27 @@ export function TimeEntryFields({
   startTimeLabel = "Start Time",
   onDurationChange,
   onStartTimeChange,
+  defaultDurationSeconds,
+  defaultStartTime,
+  storeValue = true,
 }: TimeEntryFieldsProps) {
   const prefs = getPreferenceValues<Preferences>();
   const inputMethod = prefs.timeInputMethod || "dropdown";
-  
-  const [hoursVal, setHoursVal] = useState("0");
-  const [minutesVal, setMinutesVal] = useState("30");
-  const [startHourVal, setStartHourVal] = useState("09");
-  const [startMinuteVal, setStartMinuteVal] = useState("00");
+
+  const defaultTotalMinutes = defaultDurationSeconds !== undefined ? Math.round(defaultDurationSeconds / 60) : 30;
+  const defaultHours = Math.floor(defaultTotalMinutes / 60);
+  const defaultMinutes = defaultTotalMinutes % 60;
+  const [defaultStartHour, defaultStartMinute] = (defaultStartTime || "09:00:00").split(":");
+
+  const [hoursVal, setHoursVal] = useState(String(defaultHours));
+  const [minutesVal, setMinutesVal] = useState(String(defaultMinutes));
+  const [startHourVal, setStartHourVal] = useState(defaultStartHour.padStart(2, "0"));
+  const [startMinuteVal, setStartMinuteVal] = useState((defaultStartMinute || "00").padStart(2, "0"));
+
+  // Existing worklogs may not line up with the predefined options, so make sure the defaults are selectable
+  const hourOptions = withOption(HOUR_OPTIONS, defaultHours);
+  const minuteOptions = withOption(MINUTE_OPTIONS, defaultMinutes);
+  const startMinuteOptions = withOption(MINUTE_OPTIONS, parseInt(defaultStartMinute || "0", 10) || 0);
 
   const handleDurationChange = (hours: string, minutes: string) => {
     if (onDurationChange) {
@@ -69,13 +86,13 @@ export function TimeEntryFields({
                 id="hours"
                 title="Hours"
                 value={hoursVal}
-                storeValue
+                storeValue={storeValue}
                 onChange={(val) => {
                   setHoursVal(val);
                   handleDurationChange(val, minutesVal);
                 }}
               >
-                {HOUR_OPTIONS.map((h) => (
+                {hourOptions.map((h) => (
                   <Form.Dropdown.Item key={h} value={h.toString()} title={`${h} hours`} />
                 ))}
               </Form.Dropdown>
@@ -83,13 +100,13 @@ export function TimeEntryFields({
                 id="minutes"
                 title="Minutes"
                 value={minutesVal}
-                storeValue
+                storeValue={storeValue}
                 onChange={(val) => {
                   setMinutesVal(val);
                   handleDurationChange(hoursVal, val);
                 }}
               >
-                {MINUTE_OPTIONS.map((m) => (
+                {minuteOptions.map((m) => (
                   <Form.Dropdown.Item key={m} value={m.toString()} title={`${m} minutes`} />
                 ))}
               </Form.Dropdown>
@@ -101,6 +118,7 @@ export function TimeEntryFields({
                 id="duration"
                 title={durationLabel}
                 placeholder="e.g. 1h 30m, 90m, or 1:30"
+                defaultValue={defaultDurationSeconds !== undefined ? `${defaultHours}h ${defaultMinutes}m` : undefined}
                 info="Enter duration as: hours and minutes (1h 30m), total minutes (90m), or time format (1:30)"
                 onChange={(val) => {
                   if (onDurationChange) {
@@ -128,7 +146,7 @@ export function TimeEntryFields({
                 id="startHour"
                 title="Hour"
                 value={startHourVal}
-                storeValue
+                storeValue={storeValue}
                 onChange={(val) => {
                   setStartHourVal(val);
                   handleStartTimeChange(val, startMinuteVal);
@@ -146,13 +164,13 @@ export function TimeEntryFields({
                 id="startMinute"
                 title="Minute"
                 value={startMinuteVal}
-                storeValue
+                storeValue={storeValue}
                 onChange={(val) => {
                   setStartMinuteVal(val);
                   handleStartTimeChange(startHourVal, val);
                 }}
               >
-                {MINUTE_OPTIONS.map((m) => (
+                {startMinuteOptions.map((m) => (
                   <Form.Dropdown.Item
                     key={m}
                     value={m.toString().padStart(2, "0")}
@@ -168,6 +186,7 @@ export function TimeEntryFields({
                 id="startTime"
                 title={startTimeLabel}
                 placeholder="e.g. 09:00, 14:30, 9:00"
+                defaultValue={defaultStartTime ? defaultStartTime.substring(0, 5) : undefined}
                 info="Enter time in 24-hour format (HH:mm) like 09:00 or 14:30"
                 onChange={(val) => {
                   if (onStartTimeChange) {
@@ -185,6 +204,10 @@ export function TimeEntryFields({
   );
 }
 
+function withOption(options: number[], value: number): number[] {
+  return options.includes(value) ? options : [...options, value];
+}
+
 export interface DurationValues {
   duration?: string;
   hours?: string;
@@ -218,14 +241,21 @@ export function parseStartTimeFromValues(values: StartTimeValues): string {
     const startMinute = (values.startMinute || "00").padStart(2, "0");
     return `${startHour}:${startMinute}:00`;
   }
-  
+
   const time = values.startTime || "09:00";
   const [hour, minute] = time.split(":");
   return `${hour.padStart(2, "0")}:${(minute || "00").padStart(2, "0")}:00`;
 }
 
-function parseDuration(input: string): number {
-  const s = String(input || "").trim().toLowerCase();
+/** Duration text that parseDuration reads back, e.g. "1h 30m", or "0" for no time */
+export function formatDurationInput(seconds: number): string {
+  return seconds === 0 ? "0" : formatDuration(seconds);
+}
+
+export function parseDuration(input: string): number {
+  const s = String(input || "")
+    .trim()
+    .toLowerCase();
 
   if (!s) {
     throw new Error("Duration is required");
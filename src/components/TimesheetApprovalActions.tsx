@@ -0,0 +1,118 @@
+import { Action, ActionPanel, Alert, confirmAlert, Form, Icon, useNavigation } from "@raycast/api";
+import { useEffect, useState } from "react";
+import {
+  getTimesheetReviewers,
+  reopenTimesheet,
+  submitTimesheet,
+  type TimesheetApproval,
+} from "../api/tempo-approvals";
+import { getUserDisplayName } from "../api/jira";
+import { handleError, showLoading, showSuccess } from "../utils/error-handling";
+
+function periodLabel(approval: TimesheetApproval): string {
+  return `${approval.period.from} – ${approval.period.to}`;
+}
+
+function SubmitTimesheetForm({ approval, onSubmitted }: { approval: TimesheetApproval; onSubmitted: () => void }) {
+  const { pop } = useNavigation();
+  const [reviewers, setReviewers] = useState<{ accountId: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const ids = await getTimesheetReviewers();
+        const named = await Promise.all(
+          ids.map(async (accountId) => ({
+            accountId,
+            name: await getUserDisplayName(accountId).catch(() => accountId),
+          })),
+        );
+        setReviewers(named);
+      } catch (e) {
+        await handleError(e, "Failed to load reviewers");
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
+
+  async function onSubmit(values: { reviewer?: string; comment?: string }) {
+    if (reviewers.length > 0 && !values.reviewer) {
+      await handleError(new Error("Choose a reviewer for your timesheet"), "Reviewer Required");
+      return;
+    }
+
+    try {
+      await showLoading("Submitting timesheet...");
+      await submitTimesheet(approval.period, values.reviewer || undefined, values.comment?.trim() || undefined);
+      await showSuccess("Timesheet submitted", periodLabel(approval));
+      onSubmitted();
+      pop();
+    } catch (e) {
+      await handleError(e, "Failed to submit timesheet");
+    }
+  }
+
+  return (
+    <Form
+      isLoading={loading}
+      navigationTitle="Submit Timesheet"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Submit for Approval" icon={Icon.Upload} onSubmit={onSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description title="Period" text={periodLabel(approval)} />
+      {reviewers.length > 0 && (
+        <Form.Dropdown id="reviewer" title="Reviewer" defaultValue={approval.reviewerAccountId} storeValue>
+          {reviewers.map((r) => (
+            <Form.Dropdown.Item key={r.accountId} value={r.accountId} title={r.name} />
+          ))}
+        </Form.Dropdown>
+      )}
+      <Form.TextArea id="comment" title="Comment" placeholder="Optional note for your reviewer" />
+    </Form>
+  );
+}
+
+export function TimesheetApprovalActions({
+  approval,
+  onChange,
+}: {
+  approval: TimesheetApproval;
+  onChange: () => void;
+}) {
+  async function reopen() {
+    const confirmed = await confirmAlert({
+      title: "Reopen Timesheet?",
+      message: `Your timesheet for ${periodLabel(approval)} will need to be submitted again.`,
+      icon: Icon.LockUnlocked,
+      primaryAction: { title: "Reopen", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+
+    try {
+      await showLoading("Reopening timesheet...");
+      await reopenTimesheet(approval.period);
+      await showSuccess("Timesheet reopened", periodLabel(approval));
+      onChange();
+    } catch (e) {
+      await handleError(e, "Failed to reopen timesheet");
+    }
+  }
+
+  return (
+    <>
+      {approval.canSubmit && (
+        <Action.Push
+          title="Submit for Approval"
+          icon={Icon.Upload}
+          target={<SubmitTimesheetForm approval={approval} onSubmitted={onChange} />}
+        />
+      )}
+      {approval.canReopen && <Action title="Reopen Timesheet" icon={Icon.LockUnlocked} onAction={reopen} />}
+    </>
+  );
+}
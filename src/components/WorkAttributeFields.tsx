@@ -0,0 +1,122 @@
+import { Form } from "@raycast/api";
+import type { WorkAttribute, WorkAttributeValue } from "../api/tempo";
+import type { TempoAccount } from "../api/tempo-accounts";
+
+const FIELD_PREFIX = "attr_";
+
+interface WorkAttributeFieldsProps {
+  attributes: WorkAttribute[];
+  defaults?: WorkAttributeValue[];
+  storeValue?: boolean;
+  /** Accounts linked to the selected issue's project; renders the Account attribute as a dropdown */
+  account?: AccountFieldProps;
+}
+
+export interface AccountFieldProps {
+  options: TempoAccount[];
+  value: string;
+  onChange: (accountKey: string) => void;
+}
+
+export type WorkAttributeFormValues = Record<string, unknown>;
+
+function fieldId(attribute: WorkAttribute): string {
+  return `${FIELD_PREFIX}${attribute.key}`;
+}
+
+/** Render one form field per Tempo work attribute, matching the attribute's type */
+export function WorkAttributeFields({
+  attributes,
+  defaults = [],
+  storeValue = true,
+  account,
+}: WorkAttributeFieldsProps) {
+  const defaultFor = (attribute: WorkAttribute) => defaults.find((d) => d.key === attribute.key)?.value;
+
+  return (
+    <>
+      {attributes.map((attribute) => {
+        const id = fieldId(attribute);
+        const title = attribute.required ? `${attribute.name} *` : attribute.name;
+        const defaultValue = defaultFor(attribute);
+        // Defaults (e.g. when editing) win over the last value Raycast remembered
+        const remember = storeValue && defaultValue === undefined;
+
+        if (attribute.type === "ACCOUNT" && account) {
+          return (
+            <Form.Dropdown key={id} id={id} title={title} value={account.value} onChange={account.onChange}>
+              {!attribute.required && <Form.Dropdown.Item value="" title="None" />}
+              {account.options.map((a) => (
+                <Form.Dropdown.Item key={a.key} value={a.key} title={`${a.name} (${a.key})`} />
+              ))}
+            </Form.Dropdown>
+          );
+        }
+
+        switch (attribute.type) {
+          case "CHECKBOX":
+            return (
+              <Form.Checkbox
+                key={id}
+                id={id}
+                label={attribute.name}
+                defaultValue={defaultValue !== undefined ? defaultValue === "true" : undefined}
+                storeValue={remember}
+              />
+            );
+          case "INPUT_FIELD":
+          case "INPUT_NUMERIC":
+          case "ACCOUNT":
+            return (
+              <Form.TextField
+                key={id}
+                id={id}
+                title={title}
+                placeholder={attribute.type === "INPUT_NUMERIC" ? "e.g. 42" : undefined}
+                defaultValue={defaultValue}
+                storeValue={remember}
+              />
+            );
+          default:
+            return (
+              <Form.Dropdown key={id} id={id} title={title} defaultValue={defaultValue} storeValue={remember}>
+                {!attribute.required && <Form.Dropdown.Item value="" title="None" />}
+                {attribute.values.map((v) => (
+                  <Form.Dropdown.Item key={v.value} value={v.value} title={v.label} />
+                ))}
+              </Form.Dropdown>
+            );
+        }
+      })}
+    </>
+  );
+}
+
+export function hasAccountAttribute(attributes: WorkAttribute[]): boolean {
+  return attributes.some((a) => a.type === "ACCOUNT");
+}
+
+/** Collect the attribute fields from submitted form values, enforcing required attributes */
+export function parseWorkAttributeValues(
+  values: WorkAttributeFormValues,
+  attributes: WorkAttribute[],
+): WorkAttributeValue[] {
+  const result: WorkAttributeValue[] = [];
+
+  for (const attribute of attributes) {
+    const raw = values[fieldId(attribute)];
+    const value = typeof raw === "boolean" ? String(raw) : String(raw ?? "").trim();
+
+    if (!value && attribute.required) {
+      throw new Error(`${attribute.name} is required.`);
+    }
+    if (value && attribute.type === "INPUT_NUMERIC" && isNaN(Number(value))) {
+      throw new Error(`${attribute.name} must be a number.`);
+    }
+    if (value) {
+      result.push({ key: attribute.key, value });
+    }
+  }
+
+  return result;
+}
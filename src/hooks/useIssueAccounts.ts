@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useState } from "react";
+import { getIssue } from "../api/jira";
+import { getAccountsForProject, type TempoAccount } from "../api/tempo-accounts";
+import { loadLastAccountForProject, saveLastAccountForProject } from "../state/accounts";
+import { validateIssueKey } from "../utils/validation";
+
+interface UseIssueAccountsOptions {
+  enabled?: boolean;
+  /** Account to keep selected when it is linked to the issue's project, e.g. the one on an edited worklog */
+  preferredAccountKey?: string;
+}
+
+/**
+ * Load the Tempo accounts linked to an issue's project and preselect one: the preferred account,
+ * then the last account used for the project, then the project's default account.
+ */
+export function useIssueAccounts(issueKeyOrId: string | undefined, options: UseIssueAccountsOptions = {}) {
+  const { enabled = true, preferredAccountKey } = options;
+  const [accounts, setAccounts] = useState<TempoAccount[]>([]);
+  const [accountKey, setAccountKey] = useState("");
+  const [projectId, setProjectId] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const lookup = issueKeyOrId?.trim() ?? "";
+  const isValidLookup = validateIssueKey(lookup) || /^\d+$/.test(lookup);
+
+  useEffect(() => {
+    if (!enabled || !isValidLookup) {
+      setAccounts([]);
+      setProjectId("");
+      return;
+    }
+
+    let mounted = true;
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        const issue = await getIssue(lookup);
+        const pid = issue.fields.project?.id ?? "";
+        if (!pid) return;
+
+        const [{ accounts: linked, defaultAccountKey }, last] = await Promise.all([
+          getAccountsForProject(pid),
+          loadLastAccountForProject(pid),
+        ]);
+        if (!mounted) return;
+
+        const isLinked = (key?: string | null): key is string => !!key && linked.some((a) => a.key === key);
+        setProjectId(pid);
+        setAccounts(linked);
+        if (isLinked(preferredAccountKey)) setAccountKey(preferredAccountKey);
+        else if (isLinked(last)) setAccountKey(last);
+        else setAccountKey(defaultAccountKey ?? "");
+      } catch {
+        // Accounts are optional; leave the field empty if the issue or its links can't be loaded
+        if (mounted) {
+          setAccounts([]);
+          setProjectId("");
+        }
+      } finally {
+        if (mounted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    load();
+
+    return () => {
+      mounted = false;
+    };
+  }, [lookup, isValidLookup, enabled, preferredAccountKey]);
+
+  const rememberAccount = useCallback(
+    async (key: string) => {
+      if (!projectId || !key) return;
+      await saveLastAccountForProject(projectId, key);
+    },
+    [projectId],
+  );
+
+  return {
+    accounts,
+    accountKey,
+    setAccountKey,
+    loading,
+    rememberAccount,
+    accountField: { options: accounts, value: accountKey, onChange: setAccountKey },
+  };
+}
@@ -0,0 +1,36 @@
+import { useEffect, useState } from "react";
+import { getIssue } from "../api/jira";
+import { toIssueLite, type IssueLite } from "../utils/issues";
+
+/**
+ * Type, status, assignee, priority and parent for issue keys found outside Jira (e.g. in GitHub PRs).
+ * Keys Jira doesn't know are left out, since the extractor also matches things like `UTF-8`.
+ */
+export function useIssueDetails(issueKeys: string[]) {
+  const [issues, setIssues] = useState<Map<string, IssueLite>>(new Map());
+  const keysId = issueKeys.join(",");
+
+  useEffect(() => {
+    if (!keysId) {
+      setIssues(new Map());
+      return;
+    }
+    let mounted = true;
+
+    const load = async () => {
+      const keys = keysId.split(",");
+      const found = await Promise.all(keys.map((key) => getIssue(key).catch(() => null)));
+      if (mounted) {
+        setIssues(new Map(found.filter((i) => i !== null).map((i) => [i.key, toIssueLite(i)])));
+      }
+    };
+
+    load();
+
+    return () => {
+      mounted = false;
+    };
+  }, [keysId]);
+
+  return { issues };
+}
@@ -0,0 +1,42 @@
+import { useEffect, useRef, useState } from "react";
+import { searchIssuesByText } from "../api/jira";
+import { toIssueLite, type IssueLite } from "../utils/issues";
+
+/** Jira issues matching the typed text by key or summary, debounced while the user types */
+export function useIssueSearch(debounceMs = 350) {
+  const [searchText, setSearchText] = useState("");
+  const [results, setResults] = useState<IssueLite[]>([]);
+  const [loading, setLoading] = useState(false);
+  const searchTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    if (searchTimer.current) clearTimeout(searchTimer.current);
+    if (!searchText.trim()) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+
+    let mounted = true;
+    setLoading(true);
+    searchTimer.current = setTimeout(async () => {
+      try {
+        const issues = await searchIssuesByText(searchText);
+        if (mounted) {
+          setResults(issues.map(toIssueLite));
+        }
+      } catch {
+        if (mounted) setResults([]);
+      } finally {
+        if (mounted) setLoading(false);
+      }
+    }, debounceMs);
+
+    return () => {
+      mounted = false;
+      if (searchTimer.current) clearTimeout(searchTimer.current);
+    };
+  }, [searchText, debounceMs]);
+
+  return { searchText, setSearchText, results, loading };
+}
@@ -0,0 +1,48 @@
+import { useEffect, useState } from "react";
+import { getIssueTimeTracking, type IssueTimeTracking } from "../api/jira";
+import { validateIssueKey } from "../utils/validation";
+
+/** Original, spent and remaining estimate of an issue, reloaded whenever the issue changes */
+export function useIssueTimeTracking(issueKey: string | undefined) {
+  const [timeTracking, setTimeTracking] = useState<IssueTimeTracking | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const key = issueKey?.trim() ?? "";
+  const isValidKey = validateIssueKey(key);
+
+  useEffect(() => {
+    if (!isValidKey) {
+      setTimeTracking(null);
+      return;
+    }
+
+    let mounted = true;
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        const result = await getIssueTimeTracking(key);
+        if (mounted) {
+          setTimeTracking(result);
+        }
+      } catch {
+        // Time tracking may be disabled for the project; the estimate fields just stay empty
+        if (mounted) {
+          setTimeTracking(null);
+        }
+      } finally {
+        if (mounted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    load();
+
+    return () => {
+      mounted = false;
+    };
+  }, [key, isValidKey]);
+
+  return { timeTracking, loading };
+}
@@ -1,17 +1,19 @@
 import { useCallback, useEffect, useRef, useState } from "react";
-import { searchIssues } from "../api/jira";
+import { countIssues, searchIssues } from "../api/jira";
 import { loadJqlQueries, saveJqlQueries, type JqlQuery, loadLastIssueForJql, saveLastIssueForJql } from "../utils/jql";
+import { toIssueLite, type IssueLite } from "../utils/issues";
 
-export type IssueLite = { key: string; summary: string };
+export type { IssueLite };
 
 export interface UseJqlIssuePickerOptions {
   debounceMs?: number;
   autoLoadIssues?: boolean;
   previewDebounceMs?: number;
+  restoreLastIssue?: boolean;
 }
 
 export function useJqlIssuePicker(options: UseJqlIssuePickerOptions = {}) {
-  const { debounceMs = 500, autoLoadIssues = true, previewDebounceMs = 600 } = options;
+  const { debounceMs = 500, autoLoadIssues = true, previewDebounceMs = 600, restoreLastIssue = true } = options;
 
   const [jqlQueries, setJqlQueries] = useState<JqlQuery[]>([]);
   const [selectedJql, setSelectedJql] = useState("");
@@ -43,9 +45,9 @@ export function useJqlIssuePicker(options: UseJqlIssuePickerOptions = {}) {
     loadTimer.current = setTimeout(async () => {
       try {
         const res = await searchIssues(selectedJql);
-        const mapped = res.map((i) => ({ key: i.key, summary: i.fields.summary }));
+        const mapped = res.map(toIssueLite);
         setIssues(mapped);
-        const last = await loadLastIssueForJql(selectedJql);
+        const last = restoreLastIssue ? await loadLastIssueForJql(selectedJql) : null;
         if (last && mapped.some((i) => i.key === last)) setSelectedIssue(last);
         else setSelectedIssue("");
       } catch {
@@ -58,7 +60,7 @@ export function useJqlIssuePicker(options: UseJqlIssuePickerOptions = {}) {
     return () => {
       if (loadTimer.current) clearTimeout(loadTimer.current);
     };
-  }, [selectedJql, autoLoadIssues, debounceMs]);
+  }, [selectedJql, autoLoadIssues, debounceMs, restoreLastIssue]);
 
   // Live preview of issue count while editing JQL
   useEffect(() => {
@@ -75,8 +77,7 @@ export function useJqlIssuePicker(options: UseJqlIssuePickerOptions = {}) {
     setPreviewLoading(true);
     previewTimer.current = setTimeout(async () => {
       try {
-        const res = await searchIssues(jqlEditValue);
-        setPreviewCount(res.length);
+        setPreviewCount(await countIssues(jqlEditValue));
       } catch {
         setPreviewCount(null);
       } finally {
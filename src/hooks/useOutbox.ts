@@ -0,0 +1,72 @@
+import { showToast, Toast } from "@raycast/api";
+import { useCallback, useEffect, useState } from "react";
+import { discardOutboxEntry, loadOutbox, retryOutbox, retryOutboxIfDue, type OutboxEntry } from "../state/outbox";
+
+/**
+ * Send worklogs left in the outbox by an earlier command, if the last attempt was a while ago. Returns
+ * whether the retry is still running, so menu bar commands can stay loaded until it settles.
+ */
+export function useRetryOutboxOnLaunch(onRetried?: () => void) {
+  const [retrying, setRetrying] = useState(true);
+
+  useEffect(() => {
+    retryOutboxIfDue()
+      .then(async (result) => {
+        if (result && result.sent > 0) {
+          await showToast({
+            style: Toast.Style.Success,
+            title: `Sent ${result.sent} offline worklog${result.sent === 1 ? "" : "s"} to Tempo`,
+          });
+        }
+        onRetried?.();
+      })
+      .catch((e) => console.error("Failed to retry worklog outbox:", e))
+      .finally(() => setRetrying(false));
+  }, []);
+
+  return retrying;
+}
+
+/** Worklogs waiting in the offline outbox, with actions to resend or drop them */
+export function useOutbox() {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+
+  const reload = useCallback(async () => {
+    setEntries(await loadOutbox());
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const retrying = useRetryOutboxOnLaunch(reload);
+
+  const retryNow = useCallback(
+    async (id?: string) => {
+      await showToast({ style: Toast.Style.Animated, title: "Sending pending worklogs…" });
+      const { sent, remaining } = await retryOutbox(id ? [id] : undefined);
+      await reload();
+      await showToast(
+        remaining > 0 && sent === 0
+          ? { style: Toast.Style.Failure, title: "Still offline", message: `${remaining} worklogs pending` }
+          : {
+              style: Toast.Style.Success,
+              title: `Sent ${sent} worklog${sent === 1 ? "" : "s"}`,
+              message: remaining > 0 ? `${remaining} still pending` : undefined,
+            },
+      );
+      return sent;
+    },
+    [reload],
+  );
+
+  const discard = useCallback(
+    async (id: string) => {
+      await discardOutboxEntry(id);
+      await reload();
+    },
+    [reload],
+  );
+
+  return { entries, retrying, reload, retryNow, discard };
+}
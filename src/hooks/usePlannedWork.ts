@@ -0,0 +1,54 @@
+import { useEffect, useState } from "react";
+import { resolveIssueIds } from "../api/issue-resolver";
+import { getMyPlannedAllocations, type PlannedAllocation } from "../api/tempo-plans";
+
+export interface PlannedWorkItem extends PlannedAllocation {
+  issueKey: string;
+  issueSummary?: string;
+}
+
+/** Tempo Planner allocations for the date range, with the planned issues' keys resolved from Jira */
+export function usePlannedWork(from: string, to: string) {
+  const [plannedWork, setPlannedWork] = useState<PlannedWorkItem[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!from || !to) return;
+
+    let mounted = true;
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        const allocations = await getMyPlannedAllocations(from, to);
+        const issuesById = await resolveIssueIds(allocations.map((a) => a.issueId));
+
+        if (mounted) {
+          setPlannedWork(
+            allocations.map((a) => {
+              const issue = issuesById.get(a.issueId);
+              return { ...a, issueKey: issue?.key ?? `Issue #${a.issueId}`, issueSummary: issue?.summary };
+            }),
+          );
+        }
+      } catch {
+        // Tempo Planner may not be enabled, so the failure is left unreported
+        if (mounted) {
+          setPlannedWork([]);
+        }
+      } finally {
+        if (mounted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    load();
+
+    return () => {
+      mounted = false;
+    };
+  }, [from, to]);
+
+  return { plannedWork, loading };
+}
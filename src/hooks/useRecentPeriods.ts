@@ -0,0 +1,28 @@
+import { useEffect, useState } from "react";
+import { getRecentPeriods, type NavigablePeriod } from "../utils/periods";
+
+/** The current timesheet period and the ones before it, newest first */
+export function useRecentPeriods(count: number) {
+  const [periods, setPeriods] = useState<NavigablePeriod[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const load = async () => {
+      const recent = await getRecentPeriods(count);
+      if (mounted) {
+        setPeriods(recent);
+        setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      mounted = false;
+    };
+  }, [count]);
+
+  return { periods, loading };
+}
@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useState } from "react";
+import { getTeamMembers, getTeamWorklogs, type TeamMember } from "../api/tempo-teams";
+import { getUserSchedule, type UserScheduleDay } from "../api/tempo-schedules";
+import type { TempoWorklog } from "../types";
+import { handleError } from "../utils/error-handling";
+
+export interface TeamMemberWeek {
+  member: TeamMember;
+  worklogs: TempoWorklog[];
+  /** Logged seconds keyed by date */
+  loggedByDate: Map<string, number>;
+  /** Schedule keyed by date; empty when Tempo wouldn't return it */
+  schedule: Map<string, UserScheduleDay>;
+}
+
+/** Members of a Tempo team with their worklogs and schedules for a date range */
+export function useTeamWeek(teamId: number, from: string, to: string) {
+  const [members, setMembers] = useState<TeamMemberWeek[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reloadToken, setReloadToken] = useState(0);
+
+  const reload = useCallback(() => setReloadToken((t) => t + 1), []);
+
+  useEffect(() => {
+    if (!from || !to) return;
+    let mounted = true;
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        const [teamMembers, worklogs] = await Promise.all([getTeamMembers(teamId), getTeamWorklogs(teamId, from, to)]);
+
+        const weeks = await Promise.all(
+          teamMembers.map(async (member): Promise<TeamMemberWeek> => {
+            // A missing schedule only hides the required totals, so don't fail the whole team over it
+            const schedule = await getUserSchedule(member.accountId, from, to).catch(() => []);
+            const memberLogs = worklogs.filter((w) => w.author?.accountId === member.accountId);
+            const loggedByDate = new Map<string, number>();
+            memberLogs.forEach((w) => {
+              loggedByDate.set(w.startDate, (loggedByDate.get(w.startDate) ?? 0) + (w.timeSpentSeconds || 0));
+            });
+            return {
+              member,
+              worklogs: memberLogs,
+              loggedByDate,
+              schedule: new Map(schedule.map((d) => [d.date, d])),
+            };
+          }),
+        );
+
+        if (mounted) {
+          setMembers(weeks);
+        }
+      } catch (e) {
+        if (mounted) {
+          await handleError(e, "Failed to load team worklogs");
+        }
+      } finally {
+        if (mounted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    load();
+
+    return () => {
+      mounted = false;
+    };
+  }, [teamId, from, to, reloadToken]);
+
+  return { members, loading, reload };
+}
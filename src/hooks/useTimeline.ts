@@ -1,5 +1,5 @@
-import { useEffect, useState } from "react";
-import { getMyWorklogs } from "../api/tempo";
+import { useCallback, useMemo } from "react";
+import { useWorklogs } from "./useWorklogs";
 import {
   worklogsToTimeBlocks,
   detectConflicts,
@@ -14,55 +14,36 @@ interface UseTimelineProps {
   plannedDuration: number;
   plannedStart: string;
   issueKey?: string;
+  /** Leave this worklog out of the timeline, e.g. while it is being edited */
+  excludeWorklogId?: number;
 }
 
-export function useTimeline({ date, plannedDuration, plannedStart, issueKey }: UseTimelineProps) {
-  const [timeline, setTimeline] = useState("");
-  const [conflictSummary, setConflictSummary] = useState("");
-  const [loading, setLoading] = useState(false);
+export function useTimeline({ date, plannedDuration, plannedStart, issueKey, excludeWorklogId }: UseTimelineProps) {
+  // Worklogs only depend on the date; the planned block is recomputed locally as the form changes
+  const { worklogs, loading, revalidate } = useWorklogs(date, date);
 
-  useEffect(() => {
-    let mounted = true;
+  const reload = useCallback(() => {
+    revalidate().catch(() => undefined);
+  }, [revalidate]);
 
-    const loadTimeline = async () => {
-      try {
-        setLoading(true);
-        const logs = await getMyWorklogs(date, date);
-        const blocks = worklogsToTimeBlocks(logs);
+  const { timeline, conflictSummary } = useMemo(() => {
+    const blocks = worklogsToTimeBlocks(worklogs.filter((log) => log.tempoWorklogId !== excludeWorklogId));
 
-        const plannedBlock: TimeBlock = {
-          startTime: plannedStart,
-          endTime: calculateEndTime(plannedStart, plannedDuration),
-          durationSeconds: plannedDuration,
-          issueKey: issueKey || "(Select issue)",
-          isPlanned: true,
-        };
-
-        const allBlocks = [...blocks, plannedBlock];
-        const conflicts = detectConflicts(allBlocks);
-
-        if (mounted) {
-          setTimeline(generateSimpleTimeline(blocks, plannedBlock));
-          setConflictSummary(generateConflictSummary(conflicts));
-        }
-      } catch {
-        if (mounted) {
-          setTimeline("");
-          setConflictSummary("");
-        }
-      } finally {
-        if (mounted) {
-          setLoading(false);
-        }
-      }
+    const plannedBlock: TimeBlock = {
+      startTime: plannedStart,
+      endTime: calculateEndTime(plannedStart, plannedDuration),
+      durationSeconds: plannedDuration,
+      issueKey: issueKey || "(Select issue)",
+      isPlanned: true,
     };
 
-    loadTimeline();
+    const conflicts = detectConflicts([...blocks, plannedBlock]);
 
-    return () => {
-      mounted = false;
+    return {
+      timeline: generateSimpleTimeline(blocks, plannedBlock),
+      conflictSummary: generateConflictSummary(conflicts),
     };
-  }, [date, plannedDuration, plannedStart, issueKey]);
+  }, [worklogs, plannedDuration, plannedStart, issueKey, excludeWorklogId]);
 
-  return { timeline, conflictSummary, loading };
+  return { timeline, conflictSummary, loading, reload };
 }
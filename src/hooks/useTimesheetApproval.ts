@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useState } from "react";
+import { getTimesheetApproval, type TimesheetApproval } from "../api/tempo-approvals";
+import { getUserDisplayName } from "../api/jira";
+import { isTempoBackend } from "../api/worklog-backend";
+
+/** Approval status of the timesheet period containing `date`, with the reviewer's display name */
+export function useTimesheetApproval(date: string) {
+  const [approval, setApproval] = useState<TimesheetApproval | null>(null);
+  const [reviewerName, setReviewerName] = useState<string | undefined>();
+  const [loading, setLoading] = useState(false);
+  const [reloadToken, setReloadToken] = useState(0);
+
+  useEffect(() => {
+    if (!date || !isTempoBackend()) return;
+
+    let mounted = true;
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        const result = await getTimesheetApproval(date);
+        const name = result.reviewerAccountId
+          ? await getUserDisplayName(result.reviewerAccountId).catch(() => result.reviewerAccountId)
+          : undefined;
+        if (mounted) {
+          setApproval(result);
+          setReviewerName(name);
+        }
+      } catch {
+        // Approvals may be disabled for the user, so the failure is left unreported
+        if (mounted) {
+          setApproval(null);
+          setReviewerName(undefined);
+        }
+      } finally {
+        if (mounted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    load();
+
+    return () => {
+      mounted = false;
+    };
+  }, [date, reloadToken]);
+
+  const reload = useCallback(() => setReloadToken((t) => t + 1), []);
+
+  return { approval, reviewerName, loading, reload };
+}
@@ -0,0 +1,41 @@
+import { useEffect, useState } from "react";
+import { getMyUserSchedule, type UserScheduleDay } from "../api/tempo-schedules";
+
+/** The current user's Tempo schedule for a date range, keyed by date */
+export function useUserSchedule(from: string, to: string) {
+  const [schedule, setSchedule] = useState<Map<string, UserScheduleDay>>(new Map());
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!from || !to) return;
+
+    let mounted = true;
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        const days = await getMyUserSchedule(from, to);
+        if (mounted) {
+          setSchedule(new Map(days.map((d) => [d.date, d])));
+        }
+      } catch {
+        // The schedule only adds context to the totals; the failure is left unreported
+        if (mounted) {
+          setSchedule(new Map());
+        }
+      } finally {
+        if (mounted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    load();
+
+    return () => {
+      mounted = false;
+    };
+  }, [from, to]);
+
+  return { schedule, loading };
+}
@@ -0,0 +1,42 @@
+import { useEffect, useState } from "react";
+import { getWorkAttributes, type WorkAttribute } from "../api/tempo";
+import { handleError } from "../utils/error-handling";
+
+export function useWorkAttributes() {
+  const [workAttributes, setWorkAttributes] = useState<WorkAttribute[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        const attributes = await getWorkAttributes();
+        if (mounted) {
+          setWorkAttributes(attributes);
+          setError(null);
+        }
+      } catch (err) {
+        if (mounted) {
+          const error = err instanceof Error ? err : new Error("Failed to load work attributes");
+          setError(error);
+          await handleError(error, "Failed to load work attributes");
+        }
+      } finally {
+        if (mounted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    load();
+
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  return { workAttributes, loading, error };
+}
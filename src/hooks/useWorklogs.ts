@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useState } from "react";
+import { getMyWorklogs } from "../api/tempo";
+import { readCachedWorklogs } from "../api/worklog-cache";
+import type { TempoWorklog } from "../types";
+import { handleError } from "../utils/error-handling";
+
+/**
+ * The current user's worklogs for a date range, served from the shared cache first and refreshed from
+ * Tempo in the background. `revalidate` refetches on demand, e.g. after logging time.
+ */
+export function useWorklogs(from: string, to: string) {
+  const [worklogs, setWorklogs] = useState<TempoWorklog[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!from || !to) return;
+    let mounted = true;
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        const cached = await readCachedWorklogs(from, to);
+        if (mounted) {
+          setWorklogs(cached?.worklogs ?? []);
+        }
+
+        const fresh = await getMyWorklogs(from, to);
+        if (mounted) {
+          setWorklogs(fresh);
+        }
+      } catch (e) {
+        if (mounted) {
+          await handleError(e, "Failed to load logs");
+        }
+      } finally {
+        if (mounted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    load();
+
+    return () => {
+      mounted = false;
+    };
+  }, [from, to]);
+
+  const revalidate = useCallback(async () => {
+    if (!from || !to) return;
+    setLoading(true);
+    try {
+      setWorklogs(await getMyWorklogs(from, to));
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to]);
+
+  return { worklogs, loading, revalidate };
+}
@@ -1,9 +1,12 @@
 import { Action, ActionPanel, Form, Icon } from "@raycast/api";
 import { useState } from "react";
 import { getIssueIdFromKey } from "./api/jira";
-import { createWorklog } from "./api/tempo";
+import type { WorklogParams } from "./api/tempo";
+import { createWorklogOrQueue } from "./state/outbox";
+import { useRetryOutboxOnLaunch } from "./hooks/useOutbox";
+import { confirmNotDuplicate, recordCreatedWorklog } from "./utils/duplicate-worklogs";
 import { useJqlIssuePicker } from "./hooks/useJqlIssuePicker";
-import { useWorkTypes } from "./hooks/useWorkTypes";
+import { useWorkAttributes } from "./hooks/useWorkAttributes";
 import { useTimeline } from "./hooks/useTimeline";
 import { formatDuration } from "./utils/time-formatting";
 import { handleError, showSuccess, showLoading } from "./utils/error-handling";
@@ -15,8 +18,24 @@ import {
   type DurationValues,
   type StartTimeValues,
 } from "./components/TimeEntryFields";
+import {
+  hasAccountAttribute,
+  parseWorkAttributeValues,
+  WorkAttributeFields,
+  type WorkAttributeFormValues,
+} from "./components/WorkAttributeFields";
+import { useIssueAccounts } from "./hooks/useIssueAccounts";
+import { BillableField, parseBillableFromValues, type BillableValues } from "./components/BillableField";
+import { IssueDropdown } from "./components/IssueDropdown";
+import {
+  RemainingEstimateFields,
+  parseRemainingEstimateFromValues,
+  type RemainingEstimateValues,
+} from "./components/RemainingEstimateFields";
+import { useIssueTimeTracking } from "./hooks/useIssueTimeTracking";
 
 export default function Command() {
+  useRetryOutboxOnLaunch();
   const {
     jqlQueries,
     selectedJql,
@@ -51,7 +70,11 @@ export default function Command() {
   }
   const [plannedStart, setPlannedStart] = useState("09:00:00");
 
-  const { workTypes, loading: loadingWorkTypes } = useWorkTypes();
+  const { workAttributes, loading: loadingWorkAttributes } = useWorkAttributes();
+  const { timeTracking } = useIssueTimeTracking(manualIssue.trim() || selectedIssue);
+  const { accountField, rememberAccount } = useIssueAccounts(manualIssue.trim() || selectedIssue, {
+    enabled: hasAccountAttribute(workAttributes),
+  });
   const {
     timeline,
     conflictSummary,
@@ -66,14 +89,14 @@ export default function Command() {
   async function onSubmit(
     values: {
       description?: string;
-      worklogType?: string;
     } & DurationValues &
-      StartTimeValues,
+      StartTimeValues &
+      BillableValues &
+      RemainingEstimateValues &
+      WorkAttributeFormValues,
   ) {
     try {
-      if (!values.worklogType) {
-        throw new Error("Work Type is required.");
-      }
+      const attributes = parseWorkAttributeValues(values, workAttributes);
 
       let issueId: string;
       let issueKey: string;
@@ -97,18 +120,26 @@ export default function Command() {
         : new Date().toISOString().substring(0, 10);
       const time = startDateTime ? startDateTime.toTimeString().substring(0, 8) : parseStartTimeFromValues(values);
 
-      await showLoading("Creating worklog…");
       const secs = parseDurationFromValues(values);
-      const wl = await createWorklog({
+      const params: WorklogParams = {
         issueId,
         timeSpentSeconds: secs,
+        billableSeconds: parseBillableFromValues(values, issueKey, secs),
+        remainingEstimateSeconds: parseRemainingEstimateFromValues(values, timeTracking, secs),
         startDate: date,
         startTime: time,
         description: values.description,
-        workTypeValue: values.worklogType,
-      });
+        attributes,
+      };
+      if (!(await confirmNotDuplicate(params))) return;
+
+      await showLoading("Creating worklog…");
+      const wl = await createWorklogOrQueue(params, issueKey);
+      if (!wl) return;
+      recordCreatedWorklog(params);
 
       const formattedDuration = formatDuration(secs);
+      await rememberAccount(accountField.value);
       await showSuccess(`Logged ${formattedDuration} to ${issueKey}`, `Tempo worklog #${wl.tempoWorklogId}`);
     } catch (e) {
       await handleError(e, "Failed to log time");
@@ -147,7 +178,7 @@ export default function Command() {
           />
         </ActionPanel>
       }
-      isLoading={loadingWorkTypes || loadingIssues || loadingTimeline}
+      isLoading={loadingWorkAttributes || loadingIssues || loadingTimeline}
     >
       <Form.Description text="Select a saved JQL query. To add, edit, or remove queries, use the Manage Queries button." />
       <Form.Dropdown
@@ -166,11 +197,7 @@ export default function Command() {
       {editingJql ? (
         <Form.TextArea id="jqlEdit" title={getJqlEditTitle()} value={jqlEditValue} onChange={setJqlEditValue} />
       ) : null}
-      <Form.Dropdown id="issueKey" title="Issue" value={selectedIssue} onChange={setSelectedIssue} storeValue>
-        {issues.map((i) => (
-          <Form.Dropdown.Item key={i.key} value={i.key} title={`${i.key} — ${i.summary}`} />
-        ))}
-      </Form.Dropdown>
+      <IssueDropdown issues={issues} value={selectedIssue} onChange={setSelectedIssue} storeValue />
       <Form.TextField
         id="manualIssue"
         title="Or enter issue key manually"
@@ -179,16 +206,14 @@ export default function Command() {
         placeholder="e.g. ABC-123"
         error={manualIssueError || undefined}
       />
-      <Form.Dropdown id="worklogType" title="Work Type" storeValue>
-        {workTypes.map((t) => (
-          <Form.Dropdown.Item key={t.value} value={t.value} title={t.label} />
-        ))}
-      </Form.Dropdown>
+      <WorkAttributeFields attributes={workAttributes} account={accountField} />
 
       <TimeEntryFields
         onDurationChange={(secs) => setPlannedDuration(secs)}
         onStartTimeChange={(time) => setPlannedStart(time)}
       />
+      <BillableField issueKey={manualIssue.trim() || selectedIssue} />
+      <RemainingEstimateFields timeTracking={timeTracking} />
 
       <Form.Separator />
 
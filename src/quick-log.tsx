@@ -7,31 +7,41 @@ import {
   type ParsedTimeEntry,
 } from "./utils/natural-language-parser";
 import { getIssueIdFromKey, getIssue } from "./api/jira";
-import { createWorklog } from "./api/tempo";
+import type { WorklogParams } from "./api/tempo";
+import { createWorklogOrQueue } from "./state/outbox";
+import { useRetryOutboxOnLaunch } from "./hooks/useOutbox";
+import { confirmNotDuplicate, recordCreatedWorklog } from "./utils/duplicate-worklogs";
 import { formatDuration } from "./utils/time-formatting";
-import { useWorkTypes } from "./hooks/useWorkTypes";
+import { useWorkAttributes } from "./hooks/useWorkAttributes";
 import { handleError, showLoading, showSuccess } from "./utils/error-handling";
+import {
+  hasAccountAttribute,
+  parseWorkAttributeValues,
+  WorkAttributeFields,
+  type WorkAttributeFormValues,
+} from "./components/WorkAttributeFields";
+import { useIssueAccounts } from "./hooks/useIssueAccounts";
+import { BillableField, parseBillableFromValues, type BillableValues } from "./components/BillableField";
+import { IssueDropdown } from "./components/IssueDropdown";
 
 export default function QuickLogTime() {
+  useRetryOutboxOnLaunch();
   const [input, setInput] = useState("");
   const [parsed, setParsed] = useState<ParsedTimeEntry | null>(null);
   const [validationError, setValidationError] = useState<string | null>(null);
   const [issueSummary, setIssueSummary] = useState<string>("");
-  const [selectedWorkType, setSelectedWorkType] = useState<string>("");
-  const { workTypes, loading: loadingWorkTypes } = useWorkTypes();
+  const [pickedIssue, setPickedIssue] = useState("");
+  const { workAttributes, loading: loadingWorkAttributes } = useWorkAttributes();
+  const { accountField, rememberAccount } = useIssueAccounts(parsed?.issueKey, {
+    enabled: hasAccountAttribute(workAttributes),
+  });
   const { push } = useNavigation();
 
-  useEffect(() => {
-    if (workTypes.length > 0 && !selectedWorkType) {
-      setSelectedWorkType(workTypes[0].value);
-    }
-  }, [workTypes, selectedWorkType]);
-
   useEffect(() => {
     let mounted = true;
 
     const processInput = async () => {
-      const result = parseTimeEntry(input);
+      const result = parseTimeEntry(input, pickedIssue || undefined);
       setParsed(result);
 
       const error = validateParsedEntry(result);
@@ -58,20 +68,17 @@ export default function QuickLogTime() {
     return () => {
       mounted = false;
     };
-  }, [input]);
+  }, [input, pickedIssue]);
 
-  async function handleSubmit() {
+  async function handleSubmit(values: WorkAttributeFormValues & BillableValues) {
     if (!parsed || validationError) {
       await handleError(new Error(validationError || "Could not parse input"), "Invalid Input");
       return;
     }
 
-    if (!selectedWorkType) {
-      await handleError(new Error("Please select a work type"), "Work Type Required");
-      return;
-    }
-
     try {
+      const attributes = parseWorkAttributeValues(values, workAttributes);
+      const billableSeconds = parseBillableFromValues(values, parsed.issueKey, parsed.durationSeconds);
       await showLoading("Logging time...");
 
       const issueId = await getIssueIdFromKey(parsed.issueKey);
@@ -82,15 +89,22 @@ export default function QuickLogTime() {
       const date = new Date().toISOString().substring(0, 10);
       const time = parsed.startTime || new Date().toTimeString().substring(0, 8);
 
-      const worklog = await createWorklog({
+      const params: WorklogParams = {
         issueId,
         timeSpentSeconds: parsed.durationSeconds,
+        billableSeconds,
         startDate: date,
         startTime: time,
         description: parsed.description,
-        workTypeValue: selectedWorkType,
-      });
+        attributes,
+      };
+      if (!(await confirmNotDuplicate(params))) return;
 
+      const worklog = await createWorklogOrQueue(params, parsed.issueKey);
+      if (!worklog) return;
+      recordCreatedWorklog(params);
+
+      await rememberAccount(accountField.value);
       await showSuccess("Time Logged!", `${formatDuration(parsed.durationSeconds)} to ${parsed.issueKey}`);
 
       push(
@@ -113,11 +127,12 @@ export default function QuickLogTime() {
 • ABC-123 1.5h @ 9am bug fix  
 • ABC-123 30m code review
 • ABC-123 2h30m @ 14:00 team meeting
-• PROJ-456 45m @ 2pm documentation`;
+• PROJ-456 45m @ 2pm documentation
+• 1h sprint planning (with an issue picked below)`;
 
   return (
     <Form
-      isLoading={loadingWorkTypes}
+      isLoading={loadingWorkAttributes}
       actions={
         <ActionPanel>
           <Action.SubmitForm title="Log Time" onSubmit={handleSubmit} icon={Icon.Clock} />
@@ -134,6 +149,15 @@ export default function QuickLogTime() {
         onChange={setInput}
         autoFocus
       />
+      <IssueDropdown
+        id="pickedIssue"
+        title="Issue"
+        issues={[]}
+        value={pickedIssue}
+        onChange={setPickedIssue}
+        emptyTitle="From time entry"
+        info="Used when the time entry doesn't include an issue key"
+      />
 
       {parsed && !validationError && (
         <>
@@ -144,11 +168,8 @@ export default function QuickLogTime() {
 
       {validationError && <Form.Description title="Error" text={`❌ ${validationError}`} />}
 
-      <Form.Dropdown id="workType" title="Work Type" value={selectedWorkType} onChange={setSelectedWorkType}>
-        {workTypes.map((type) => (
-          <Form.Dropdown.Item key={type.value} value={type.value} title={type.label} />
-        ))}
-      </Form.Dropdown>
+      <WorkAttributeFields attributes={workAttributes} account={accountField} />
+      <BillableField issueKey={parsed?.issueKey} />
 
       <Form.Separator />
 
@@ -2,14 +2,26 @@ import { Action, ActionPanel, Form, confirmAlert, Alert, Icon } from "@raycast/a
 import { useEffect, useState } from "react";
 import { getIssueIdFromKey } from "./api/jira";
 import { useJqlIssuePicker } from "./hooks/useJqlIssuePicker";
-import { useWorkTypes } from "./hooks/useWorkTypes";
-import { startTimer as start, getActiveTimer, stopTimer } from "./state/timer";
+import { useWorkAttributes } from "./hooks/useWorkAttributes";
+import { startTimer as start, getActiveTimer, stopTimerForLogging } from "./state/timer";
+import { isNonBillableIssue } from "./utils/billable";
 import { formatDuration } from "./utils/time-formatting";
-import { createWorklog } from "./api/tempo";
+import { createWorklogOrQueue, enqueueWorklog } from "./state/outbox";
+import { useRetryOutboxOnLaunch } from "./hooks/useOutbox";
+import { confirmNotDuplicate, recordCreatedWorklog } from "./utils/duplicate-worklogs";
 import { handleError, showSuccess, showLoading } from "./utils/error-handling";
 import { getIssueKeyError } from "./utils/validation";
+import {
+  hasAccountAttribute,
+  parseWorkAttributeValues,
+  WorkAttributeFields,
+  type WorkAttributeFormValues,
+} from "./components/WorkAttributeFields";
+import { IssueDropdown } from "./components/IssueDropdown";
+import { useIssueAccounts } from "./hooks/useIssueAccounts";
 
 export default function StartTimer() {
+  useRetryOutboxOnLaunch();
   const {
     jqlQueries,
     selectedJql,
@@ -29,9 +41,14 @@ export default function StartTimer() {
     persistLastIssue,
   } = useJqlIssuePicker();
 
-  const { workTypes, loading } = useWorkTypes();
-  const [existingTimer, setExistingTimer] = useState<Awaited<ReturnType<typeof getActiveTimer>>>(null);
+  const { workAttributes, loading } = useWorkAttributes();
   const [manualIssue, setManualIssue] = useState("");
+  const currentIssue = manualIssue.trim() || selectedIssue;
+  const [billable, setBillable] = useState(true);
+  const { accountField, rememberAccount } = useIssueAccounts(currentIssue, {
+    enabled: hasAccountAttribute(workAttributes),
+  });
+  const [existingTimer, setExistingTimer] = useState<Awaited<ReturnType<typeof getActiveTimer>>>(null);
 
   function getJqlEditTitle(): string {
     if (previewLoading) {
@@ -43,6 +60,10 @@ export default function StartTimer() {
     return "Edit Selected JQL";
   }
 
+  useEffect(() => {
+    setBillable(!isNonBillableIssue(currentIssue));
+  }, [currentIssue]);
+
   useEffect(() => {
     (async () => {
       try {
@@ -54,8 +75,10 @@ export default function StartTimer() {
     })();
   }, []);
 
-  async function onSubmit(values: { issueKey?: string; description?: string; worklogType: string }) {
+  async function onSubmit(values: { issueKey?: string; description?: string } & WorkAttributeFormValues) {
     try {
+      const attributes = parseWorkAttributeValues(values, workAttributes);
+
       const activeTimer = await getActiveTimer();
 
       if (activeTimer) {
@@ -98,21 +121,19 @@ export default function StartTimer() {
 
         await showLoading("Stopping existing timer...");
 
-        const stopped = await stopTimer();
+        const stopped = await stopTimerForLogging();
         if (stopped) {
-          const { entry, seconds } = stopped;
-
-          await createWorklog({
-            issueId: entry.issueId,
-            timeSpentSeconds: Math.max(60, seconds),
-            startDate: new Date(entry.start).toISOString().substring(0, 10),
-            startTime: new Date(entry.start).toTimeString().substring(0, 8),
-            description: entry.description,
-            workTypeValue: entry.workTypeValue,
-          });
-
-          const loggedDuration = formatDuration(Math.max(60, seconds));
-          await showSuccess(`Logged ${loggedDuration} to ${entry.issueKey}`);
+          const { entry, params } = stopped;
+          try {
+            if ((await confirmNotDuplicate(params)) && (await createWorklogOrQueue(params, entry.issueKey))) {
+              recordCreatedWorklog(params);
+              await showSuccess(`Logged ${formatDuration(params.timeSpentSeconds)} to ${entry.issueKey}`);
+            }
+          } catch (error) {
+            // The old timer is already cleared, so keep its time in the outbox rather than dropping it
+            await enqueueWorklog(params, entry.issueKey, error);
+            throw error;
+          }
         }
       }
 
@@ -131,13 +152,16 @@ export default function StartTimer() {
         issueKey,
         issueId,
         description: values.description,
-        workTypeValue: values.worklogType,
+        attributes,
+        accountKey: accountField.value || undefined,
+        billable,
       });
 
       if (!manualIssue.trim()) {
         await persistLastIssue(issueKey);
       }
 
+      await rememberAccount(accountField.value);
       await showSuccess(`Timer started for ${issueKey}`);
     } catch (e) {
       await handleError(e, "Failed to start timer");
@@ -205,11 +229,7 @@ export default function StartTimer() {
       {editingJql ? (
         <Form.TextArea id="jqlEdit" title={getJqlEditTitle()} value={jqlEditValue} onChange={setJqlEditValue} />
       ) : null}
-      <Form.Dropdown id="issueKey" title="Issue" value={selectedIssue} onChange={setSelectedIssue} storeValue>
-        {issues.map((i) => (
-          <Form.Dropdown.Item key={i.key} value={i.key} title={`${i.key} — ${i.summary}`} />
-        ))}
-      </Form.Dropdown>
+      <IssueDropdown issues={issues} value={selectedIssue} onChange={setSelectedIssue} storeValue />
       <Form.TextField
         id="manualIssue"
         title="Or enter issue key manually"
@@ -218,11 +238,8 @@ export default function StartTimer() {
         placeholder="e.g. ABC-123"
         error={manualIssueError || undefined}
       />
-      <Form.Dropdown id="worklogType" title="Work Type" storeValue>
-        {workTypes.map((t) => (
-          <Form.Dropdown.Item key={t.value} value={t.value} title={t.label} />
-        ))}
-      </Form.Dropdown>
+      <WorkAttributeFields attributes={workAttributes} account={accountField} />
+      <Form.Checkbox id="billable" label="Billable time" value={billable} onChange={setBillable} />
       <Form.TextArea id="description" title="Description" placeholder="Optional description" />
     </Form>
   );
@@ -0,0 +1,37 @@
+import { LocalStorage } from "@raycast/api";
+import { getIssue } from "../api/jira";
+import { getAccountsForProject } from "../api/tempo-accounts";
+
+const LAST_ACCOUNT_KEY = "lastAccountByProject";
+
+export async function saveLastAccountForProject(projectId: string, accountKey: string) {
+  if (!projectId || !accountKey) return;
+  const raw = await LocalStorage.getItem<string>(LAST_ACCOUNT_KEY);
+  const map = raw ? (JSON.parse(raw) as Record<string, string>) : {};
+  map[projectId] = accountKey;
+  await LocalStorage.setItem(LAST_ACCOUNT_KEY, JSON.stringify(map));
+}
+
+export async function loadLastAccountForProject(projectId: string): Promise<string | null> {
+  if (!projectId) return null;
+  const raw = await LocalStorage.getItem<string>(LAST_ACCOUNT_KEY);
+  if (!raw) return null;
+  const map = JSON.parse(raw) as Record<string, string>;
+  return map[projectId] ?? null;
+}
+
+/**
+ * Account for logging to an issue without a form: the last account used for its project while still
+ * linked, else the project's default account
+ */
+export async function resolveAccountForIssue(issueKey: string): Promise<string | undefined> {
+  const projectId = (await getIssue(issueKey)).fields.project?.id;
+  if (!projectId) return undefined;
+
+  const [{ accounts, defaultAccountKey }, last] = await Promise.all([
+    getAccountsForProject(projectId),
+    loadLastAccountForProject(projectId),
+  ]);
+  if (last && accounts.some((a) => a.key === last)) return last;
+  return defaultAccountKey;
+}
@@ -0,0 +1,52 @@
+import { LocalStorage } from "@raycast/api";
+import type { WorklogParams } from "../api/tempo";
+import type { TempoWorklog } from "../types";
+
+export interface DeletedWorklog {
+  tempoWorklogId: number;
+  deletedAt: string;
+  params: WorklogParams;
+}
+
+const DELETED_KEY = "tempo-deleted-worklogs";
+export const UNDO_WINDOW_MS = 30_000;
+
+async function loadDeleted(): Promise<DeletedWorklog[]> {
+  const raw = await LocalStorage.getItem<string>(DELETED_KEY);
+  if (!raw) return [];
+  const now = Date.now();
+  return (JSON.parse(raw) as DeletedWorklog[]).filter((d) => now - new Date(d.deletedAt).getTime() < UNDO_WINDOW_MS);
+}
+
+export function worklogToParams(worklog: TempoWorklog): WorklogParams {
+  return {
+    issueId: String(worklog.issue.id),
+    timeSpentSeconds: worklog.timeSpentSeconds,
+    billableSeconds: worklog.billableSeconds,
+    startDate: worklog.startDate,
+    startTime: worklog.startTime,
+    description: worklog.description,
+    attributes: worklog.attributes?.values ?? [],
+  };
+}
+
+/** Keep the full payload of a deleted worklog so it can be re-created during the undo window */
+export async function rememberDeletedWorklog(worklog: TempoWorklog): Promise<DeletedWorklog> {
+  const entry: DeletedWorklog = {
+    tempoWorklogId: worklog.tempoWorklogId,
+    deletedAt: new Date().toISOString(),
+    params: worklogToParams(worklog),
+  };
+  const deleted = await loadDeleted();
+  deleted.push(entry);
+  await LocalStorage.setItem(DELETED_KEY, JSON.stringify(deleted));
+  return entry;
+}
+
+/** Remove and return a deleted worklog's payload, or null once the undo window has passed */
+export async function takeDeletedWorklog(tempoWorklogId: number): Promise<DeletedWorklog | null> {
+  const deleted = await loadDeleted();
+  const entry = deleted.find((d) => d.tempoWorklogId === tempoWorklogId) ?? null;
+  await LocalStorage.setItem(DELETED_KEY, JSON.stringify(deleted.filter((d) => d !== entry)));
+  return entry;
+}
@@ -0,0 +1,138 @@
+import { LocalStorage, showToast, Toast } from "@raycast/api";
+import { createWorklog, getMyWorklogs, type WorklogParams } from "../api/tempo";
+import { HttpError, NetworkError, TimeoutError } from "../api/http";
+import type { TempoWorklog } from "../types";
+import { getErrorMessage } from "../utils/error-handling";
+import { findLikelyDuplicate } from "../utils/duplicate-worklogs";
+
+export interface OutboxEntry {
+  id: string;
+  issueKey: string;
+  params: WorklogParams;
+  queuedAt: string;
+  attempts: number;
+  lastError?: string;
+  /** Failed with a non-offline error or too many times; only retried when the user asks */
+  needsAttention?: boolean;
+}
+
+const OUTBOX_KEY = "tempo-worklog-outbox";
+const LAST_RETRY_KEY = "tempo-worklog-outbox-last-retry";
+/** Minimum time between automatic retries, so the menu bar interval doesn't hammer Tempo */
+export const AUTO_RETRY_INTERVAL_MS = 5 * 60 * 1000;
+/** Automatic retries stop after this many attempts, so a rejected entry isn't resent on every tick */
+const MAX_AUTO_ATTEMPTS = 5;
+
+export async function loadOutbox(): Promise<OutboxEntry[]> {
+  const raw = await LocalStorage.getItem<string>(OUTBOX_KEY);
+  return raw ? (JSON.parse(raw) as OutboxEntry[]) : [];
+}
+
+async function saveOutbox(entries: OutboxEntry[]): Promise<void> {
+  if (entries.length === 0) {
+    await LocalStorage.removeItem(OUTBOX_KEY);
+  } else {
+    await LocalStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+  }
+}
+
+/** Failures worth retrying later: no connection, timeouts and server-side errors */
+export function isOfflineError(error: unknown): boolean {
+  if (error instanceof NetworkError || error instanceof TimeoutError) return true;
+  return error instanceof HttpError && error.isTransient;
+}
+
+export async function enqueueWorklog(params: WorklogParams, issueKey: string, error: unknown): Promise<OutboxEntry> {
+  const entry: OutboxEntry = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    issueKey,
+    params,
+    queuedAt: new Date().toISOString(),
+    attempts: 1,
+    lastError: getErrorMessage(error),
+    needsAttention: !isOfflineError(error),
+  };
+  await saveOutbox([...(await loadOutbox()), entry]);
+  return entry;
+}
+
+export async function discardOutboxEntry(id: string): Promise<void> {
+  await saveOutbox((await loadOutbox()).filter((e) => e.id !== id));
+}
+
+/**
+ * Create a worklog, keeping it in the outbox instead of losing it when Tempo can't be reached.
+ * Resolves to null when the entry was queued; other errors are thrown as usual.
+ */
+export async function createWorklogOrQueue(params: WorklogParams, issueKey: string): Promise<TempoWorklog | null> {
+  try {
+    return await createWorklog(params);
+  } catch (error) {
+    if (!isOfflineError(error)) throw error;
+
+    await enqueueWorklog(params, issueKey, error);
+    await showToast({
+      style: Toast.Style.Failure,
+      title: `Saved ${issueKey} worklog offline`,
+      message: "It will be sent to Tempo automatically once you're back online",
+    });
+    return null;
+  }
+}
+
+async function sendEntry(entry: OutboxEntry): Promise<void> {
+  // A timed-out request may still have reached Tempo, so don't send the same entry twice
+  const existing = await getMyWorklogs(entry.params.startDate, entry.params.startDate);
+  if (findLikelyDuplicate(entry.params, existing)) return;
+  await createWorklog(entry.params);
+}
+
+/**
+ * Try to send queued worklogs (all of them, or only `ids`); returns how many were sent and how many remain.
+ * Automatic retries skip entries that need attention.
+ */
+export async function retryOutbox(
+  ids?: string[],
+  { automatic = false }: { automatic?: boolean } = {},
+): Promise<{ sent: number; remaining: number }> {
+  await LocalStorage.setItem(LAST_RETRY_KEY, Date.now());
+
+  const entries = await loadOutbox();
+  const failed: OutboxEntry[] = [];
+  let sent = 0;
+
+  for (const entry of entries) {
+    if ((ids && !ids.includes(entry.id)) || (automatic && entry.needsAttention)) {
+      failed.push(entry);
+      continue;
+    }
+    try {
+      await sendEntry(entry);
+      sent++;
+    } catch (error) {
+      const attempts = entry.attempts + 1;
+      failed.push({
+        ...entry,
+        attempts,
+        lastError: getErrorMessage(error),
+        needsAttention: !isOfflineError(error) || attempts >= MAX_AUTO_ATTEMPTS,
+      });
+    }
+  }
+
+  // Re-read so entries queued while we were sending aren't dropped
+  const queuedMeanwhile = (await loadOutbox()).filter((e) => !entries.some((old) => old.id === e.id));
+  await saveOutbox([...failed, ...queuedMeanwhile]);
+  return { sent, remaining: failed.length + queuedMeanwhile.length };
+}
+
+/** Retry the outbox in the background at most once per AUTO_RETRY_INTERVAL_MS */
+export async function retryOutboxIfDue(): Promise<{ sent: number; remaining: number } | null> {
+  const entries = await loadOutbox();
+  if (!entries.some((e) => !e.needsAttention)) return null;
+
+  const lastRetry = Number((await LocalStorage.getItem<number>(LAST_RETRY_KEY)) ?? 0);
+  if (Date.now() - lastRetry < AUTO_RETRY_INTERVAL_MS) return null;
+
+  return retryOutbox(undefined, { automatic: true });
+}
@@ -1,11 +1,20 @@
 import { LocalStorage, getPreferenceValues } from "@raycast/api";
+import { withAccountAttribute, type WorkAttributeValue, type WorklogParams } from "../api/tempo";
+import { WORK_TYPE_ATTRIBUTE_KEY } from "../utils/worklogs";
+import { defaultBillableSeconds } from "../utils/billable";
 
 export interface TimerEntry {
   issueKey: string;
   issueId: string;
   description?: string;
   start: string;
-  workTypeValue: string;
+  attributes?: WorkAttributeValue[];
+  /** Tempo account the time is billed to, re-applied to the attributes when the timer is logged */
+  accountKey?: string;
+  /** Whether the tracked time is billable; falls back to the project rule when unset */
+  billable?: boolean;
+  /** Timers started before work attributes were supported only carry the work type */
+  workTypeValue?: string;
 }
 
 const TIMER_KEY = "tempo-active-timer";
@@ -20,7 +29,7 @@ export async function startTimer(entry: Omit<TimerEntry, "start">): Promise<Time
 export async function stopTimer(): Promise<{ entry: TimerEntry; seconds: number } | null> {
   const raw = await LocalStorage.getItem(TIMER_KEY);
   if (!raw) return null;
-  
+
   await LocalStorage.removeItem(TIMER_KEY);
   const entry = JSON.parse(raw as string) as TimerEntry;
   const start = new Date(entry.start).getTime();
@@ -30,7 +39,7 @@ export async function stopTimer(): Promise<{ entry: TimerEntry; seconds: number
   if (prefs.roundingMode && prefs.roundingMode !== "none") {
     diff = applyRounding(diff, prefs.roundingMode);
   }
-  
+
   return { entry, seconds: diff };
 }
 
@@ -40,6 +49,48 @@ export async function getActiveTimer(): Promise<TimerEntry | null> {
   return JSON.parse(raw as string) as TimerEntry;
 }
 
+export async function getTimerAttributes(entry: TimerEntry): Promise<WorkAttributeValue[]> {
+  const attributes =
+    entry.attributes ?? (entry.workTypeValue ? [{ key: WORK_TYPE_ATTRIBUTE_KEY, value: entry.workTypeValue }] : []);
+  return withAccountAttribute(attributes, entry.accountKey);
+}
+
+export function getTimerBillableSeconds(entry: TimerEntry, seconds: number): number {
+  if (entry.billable === undefined) return defaultBillableSeconds(entry.issueKey, seconds);
+  return entry.billable ? seconds : 0;
+}
+
+/**
+ * Stop the active timer and build its worklog (at least a minute, starting at the local time the timer was
+ * started). The work attributes are resolved first because that may need Tempo: if the lookup fails, the
+ * timer keeps running instead of its time being lost.
+ */
+export async function stopTimerForLogging(): Promise<{ entry: TimerEntry; params: WorklogParams } | null> {
+  const active = await getActiveTimer();
+  if (!active) return null;
+  const attributes = await getTimerAttributes(active);
+
+  const stopped = await stopTimer();
+  if (!stopped) return null;
+
+  const { entry, seconds } = stopped;
+  const start = new Date(entry.start);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const timeSpentSeconds = Math.max(60, seconds);
+  return {
+    entry,
+    params: {
+      issueId: entry.issueId,
+      timeSpentSeconds,
+      billableSeconds: getTimerBillableSeconds(entry, timeSpentSeconds),
+      startDate: `${start.getFullYear()}-${pad(start.getMonth() + 1)}-${pad(start.getDate())}`,
+      startTime: `${pad(start.getHours())}:${pad(start.getMinutes())}:${pad(start.getSeconds())}`,
+      description: entry.description,
+      attributes,
+    },
+  };
+}
+
 export function applyRounding(seconds: number, mode: string): number {
   switch (mode) {
     case "up15":
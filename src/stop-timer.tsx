@@ -1,11 +1,15 @@
 import { Detail, ActionPanel, Action, popToRoot } from "@raycast/api";
 import { useCallback, useEffect, useState } from "react";
-import { stopTimer, getActiveTimer, type TimerEntry } from "./state/timer";
-import { createWorklog } from "./api/tempo";
+import { getActiveTimer, stopTimerForLogging, type TimerEntry } from "./state/timer";
+import type { WorklogParams } from "./api/tempo";
+import { createWorklogOrQueue, enqueueWorklog } from "./state/outbox";
+import { useRetryOutboxOnLaunch } from "./hooks/useOutbox";
+import { confirmNotDuplicate, recordCreatedWorklog } from "./utils/duplicate-worklogs";
 import { formatDuration } from "./utils/time-formatting";
 import { handleError, showSuccess } from "./utils/error-handling";
 
 export default function ActiveTimer() {
+  useRetryOutboxOnLaunch();
   const [timer, setTimer] = useState<TimerEntry | null>(null);
   const [elapsed, setElapsed] = useState(0);
   const [isStopping, setIsStopping] = useState(false);
@@ -40,7 +44,7 @@ export default function ActiveTimer() {
       const start = new Date(timer.start).getTime();
       setElapsed(Math.max(0, Math.floor((Date.now() - start) / 1000)));
     };
-    
+
     update();
     const id = setInterval(update, 1000);
     return () => clearInterval(id);
@@ -61,10 +65,18 @@ export default function ActiveTimer() {
 
   const handleStop = useCallback(async () => {
     if (isStopping) return;
-    
+
     setIsStopping(true);
-    const stopped = await stopTimer();
-    
+    let stopped: { entry: TimerEntry; params: WorklogParams } | null;
+    try {
+      stopped = await stopTimerForLogging();
+    } catch (error) {
+      setMarkdown(`# ❌ Failed to Stop Timer\n\nThe timer is still running. Please try again.`);
+      await handleError(error, "Failed to stop timer");
+      setIsStopping(false);
+      return;
+    }
+
     if (!stopped) {
       await handleError(new Error("No active timer"), "No Active Timer");
       setMarkdown("# No Active Timer\n\nNothing to stop.");
@@ -72,21 +84,9 @@ export default function ActiveTimer() {
       return;
     }
 
-    const { entry, seconds } = stopped;
-
-    const startDateTime = new Date(entry.start);
-    const year = startDateTime.getFullYear();
-    const month = String(startDateTime.getMonth() + 1).padStart(2, "0");
-    const day = String(startDateTime.getDate()).padStart(2, "0");
-    const startDate = `${year}-${month}-${day}`;
-    
-    const hours = String(startDateTime.getHours()).padStart(2, "0");
-    const minutes = String(startDateTime.getMinutes()).padStart(2, "0");
-    const seconds_time = String(startDateTime.getSeconds()).padStart(2, "0");
-    const startTime = `${hours}:${minutes}:${seconds_time}`;
-
-    const loggedSeconds = Math.max(60, seconds);
-    const formattedDuration = formatDuration(loggedSeconds);
+    const { entry, params } = stopped;
+    const { startDate, startTime } = params;
+    const formattedDuration = formatDuration(params.timeSpentSeconds);
 
     try {
       setMarkdown(
@@ -97,14 +97,25 @@ export default function ActiveTimer() {
           `Please wait...`,
       );
 
-      await createWorklog({
-        issueId: entry.issueId,
-        timeSpentSeconds: loggedSeconds,
-        startDate,
-        startTime,
-        description: entry.description,
-        workTypeValue: entry.workTypeValue,
-      });
+      if (!(await confirmNotDuplicate(params))) {
+        setMarkdown(
+          `# Skipped Duplicate\n\n` +
+            `**Issue:** ${entry.issueKey}\n\n` +
+            `A similar worklog already exists, so nothing was logged.`,
+        );
+        return;
+      }
+
+      if (!(await createWorklogOrQueue(params, entry.issueKey))) {
+        setMarkdown(
+          `# 📥 Saved Offline\n\n` +
+            `**Issue:** ${entry.issueKey}\n\n` +
+            `**Duration (rounded):** ${formattedDuration}\n\n` +
+            `Tempo couldn't be reached. The worklog is in the outbox and will be sent automatically.`,
+        );
+        return;
+      }
+      recordCreatedWorklog(params);
 
       setMarkdown(
         `# ✅ Work Logged\n\n` +
@@ -114,13 +125,15 @@ export default function ActiveTimer() {
           `${entry.description ? `**Description:** ${entry.description}\n\n` : ""}` +
           `Returning to menu...`,
       );
-      
+
       await showSuccess(`Logged ${formattedDuration} to ${entry.issueKey}`);
     } catch (error) {
+      // The timer is already cleared, so keep the time in the outbox rather than dropping it
+      await enqueueWorklog(params, entry.issueKey, error);
       setMarkdown(
         `# ❌ Failed to Log Work\n\n` +
           `**Issue:** ${entry.issueKey}\n\n` +
-          `Please try again.`,
+          `The worklog was kept in the outbox, where it can be retried or discarded from the menu bar.`,
       );
       await handleError(error, "Failed to log");
     } finally {
@@ -0,0 +1,194 @@
+import { Action, ActionPanel, Color, Icon, Keyboard, List } from "@raycast/api";
+import { useEffect, useMemo, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { getTeams, type TempoTeam } from "./api/tempo-teams";
+import { isTempoBackend } from "./api/worklog-backend";
+import { useTeamWeek, type TeamMemberWeek } from "./hooks/useTeamWeek";
+import { handleError } from "./utils/error-handling";
+import { formatDuration, formatDurationDetailed, formatTimeOfDay } from "./utils/time-formatting";
+import { describeScheduleDay, formatLoggedVsRequired, isDayOff, sumRequiredSeconds } from "./utils/schedule";
+import { tempoWeekUrl } from "./utils/tempo";
+import { useRecentPeriods } from "./hooks/useRecentPeriods";
+import { formatPeriodLabel, formatPeriodRange, periodDates } from "./utils/periods";
+
+export default function TeamWeekCommand() {
+  const [teams, setTeams] = useState<TempoTeam[]>([]);
+  const [loading, setLoading] = useState(isTempoBackend());
+
+  useEffect(() => {
+    if (!isTempoBackend()) return;
+    (async () => {
+      try {
+        setTeams(await getTeams());
+      } catch (e) {
+        await handleError(e, "Failed to load teams");
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
+
+  return (
+    <List isLoading={loading} searchBarPlaceholder="Search Tempo teams">
+      {!isTempoBackend() && (
+        <List.EmptyView
+          icon={Icon.TwoPeople}
+          title="Team Week Needs Tempo"
+          description="Teams come from Tempo, but worklogs are set to go straight to Jira in preferences"
+        />
+      )}
+      {teams.map((team) => (
+        <List.Item
+          key={team.id}
+          icon={Icon.TwoPeople}
+          title={team.name}
+          subtitle={team.summary}
+          actions={
+            <ActionPanel>
+              <Action.Push title="Show Team Week" icon={Icon.Calendar} target={<TeamWeek team={team} />} />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
+
+/** A past or current day where the person was expected to work but has nothing logged */
+function isMissingDay(week: TeamMemberWeek, date: string, today: string): boolean {
+  if (date > today || (week.loggedByDate.get(date) ?? 0) > 0) return false;
+  const day = week.schedule.get(date);
+  if (day) return !isDayOff(day) && day.requiredSeconds > 0;
+  const weekday = parseISO(date).getDay();
+  return weekday !== 0 && weekday !== 6;
+}
+
+function TeamWeek({ team }: { team: TempoTeam }) {
+  const [periodIndex, setPeriodIndex] = useState(0);
+  const { periods, loading: loadingPeriods } = useRecentPeriods(3);
+  const period = periods[periodIndex];
+  const dates = useMemo(() => (period ? periodDates(period) : []), [period]);
+  const { members, loading, reload } = useTeamWeek(team.id, period?.from ?? "", period?.to ?? "");
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  return (
+    <List
+      isLoading={loading || loadingPeriods}
+      navigationTitle={period ? `${team.name} · ${formatPeriodRange(period)}` : team.name}
+      searchBarPlaceholder="Filter team members"
+      searchBarAccessory={
+        <List.Dropdown
+          tooltip="Timesheet Period"
+          value={String(periodIndex)}
+          onChange={(v) => setPeriodIndex(Number(v))}
+        >
+          {periods.map((p, i) => (
+            <List.Dropdown.Item
+              key={p.from}
+              title={`${formatPeriodLabel(p, i)} · ${formatPeriodRange(p)}`}
+              value={String(i)}
+            />
+          ))}
+        </List.Dropdown>
+      }
+    >
+      {!loading && !loadingPeriods && members.length === 0 && (
+        <List.EmptyView icon={Icon.TwoPeople} title="No Team Members" description="This team has no active members" />
+      )}
+      {members.map((week) => {
+        const logged = week.worklogs.reduce((acc, w) => acc + (w.timeSpentSeconds || 0), 0);
+        const missing = dates.filter((d) => isMissingDay(week, d, today)).length;
+        return (
+          <List.Section
+            key={week.member.accountId}
+            title={week.member.displayName}
+            subtitle={
+              formatLoggedVsRequired(logged, sumRequiredSeconds(week.schedule, dates)) +
+              (missing > 0 ? ` · ${missing} ${missing === 1 ? "day" : "days"} empty` : "")
+            }
+          >
+            {dates.map((date) => {
+              const day = week.schedule.get(date);
+              const dayLogged = week.loggedByDate.get(date) ?? 0;
+              const isMissing = isMissingDay(week, date, today);
+              return (
+                <List.Item
+                  key={date}
+                  icon={
+                    isMissing
+                      ? { source: Icon.ExclamationMark, tintColor: Color.Red }
+                      : isDayOff(day)
+                        ? Icon.Moon
+                        : dayLogged > 0
+                          ? { source: Icon.CheckCircle, tintColor: Color.Green }
+                          : Icon.Circle
+                  }
+                  title={format(parseISO(date), "EEE, MMM d")}
+                  subtitle={describeScheduleDay(day)}
+                  keywords={[week.member.displayName]}
+                  accessories={[
+                    ...(isMissing ? [{ tag: { value: "Nothing logged", color: Color.Red } }] : []),
+                    { text: formatLoggedVsRequired(dayLogged, day?.requiredSeconds) },
+                  ]}
+                  actions={
+                    <ActionPanel>
+                      <Action.Push
+                        title="Show Entries"
+                        icon={Icon.List}
+                        target={<MemberWorklogs week={week} dates={dates} />}
+                      />
+                      <Action
+                        title="Refresh"
+                        icon={Icon.ArrowClockwise}
+                        onAction={reload}
+                        shortcut={Keyboard.Shortcut.Common.Refresh}
+                      />
+                      <Action.OpenInBrowser title="Open Tempo Week View" url={tempoWeekUrl()} icon={Icon.Globe} />
+                    </ActionPanel>
+                  }
+                />
+              );
+            })}
+          </List.Section>
+        );
+      })}
+    </List>
+  );
+}
+
+function MemberWorklogs({ week, dates }: { week: TeamMemberWeek; dates: string[] }) {
+  return (
+    <List navigationTitle={week.member.displayName} searchBarPlaceholder="Filter entries">
+      {dates.map((date) => {
+        const logs = week.worklogs
+          .filter((w) => w.startDate === date)
+          .sort((a, b) => (a.startTime || "").localeCompare(b.startTime || ""));
+        if (logs.length === 0) return null;
+        return (
+          <List.Section
+            key={date}
+            title={format(parseISO(date), "EEEE, MMM d")}
+            subtitle={formatDurationDetailed(week.loggedByDate.get(date) ?? 0)}
+          >
+            {logs.map((w) => {
+              const timeOfDay = formatTimeOfDay(w.startTime);
+              return (
+                <List.Item
+                  key={w.tempoWorklogId}
+                  icon={Icon.Clock}
+                  title={w.issue?.key ? w.issue.key : `Issue ${w.issue?.id}`}
+                  subtitle={w.description || "No description"}
+                  accessories={[
+                    { text: formatDuration(w.timeSpentSeconds) },
+                    { text: timeOfDay ? `@ ${timeOfDay}` : "" },
+                  ]}
+                />
+              );
+            })}
+          </List.Section>
+        );
+      })}
+      <List.EmptyView icon={Icon.Clock} title="No Entries" description="Nothing logged in this period" />
+    </List>
+  );
+}
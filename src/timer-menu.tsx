@@ -3,6 +3,8 @@ import { useEffect, useState } from "react";
 import React from "react";
 import { getActiveTimer, type TimerEntry } from "./state/timer";
 import { formatDuration } from "./utils/time-formatting";
+import { jiraIssueUrl } from "./utils/tempo";
+import { useOutbox } from "./hooks/useOutbox";
 
 const lastNotificationAt: { [key: string]: number } = {};
 
@@ -15,6 +17,7 @@ export default function Command() {
   const [elapsed, setElapsed] = useState(0);
   const [loading, setLoading] = useState(true);
   const prefs = getPreferenceValues<Preferences>();
+  const { entries: outbox, retrying, reload: reloadOutbox, retryNow, discard } = useOutbox();
 
   const notifyAtHours = (prefs.timerNotifyAt || "1,4,8")
     .split(",")
@@ -25,6 +28,7 @@ export default function Command() {
     const checkTimer = async () => {
       const activeTimer = await getActiveTimer();
       setTimer(activeTimer);
+      await reloadOutbox();
       setLoading(false);
     };
 
@@ -76,8 +80,48 @@ export default function Command() {
   const formattedDuration = elapsed > 0 ? formatDuration(elapsed) : "0m";
   const hours = elapsed / 3600;
 
+  const outboxSection = outbox.length > 0 && (
+    <MenuBarExtra.Section title={`${outbox.length} Worklog${outbox.length === 1 ? "" : "s"} Waiting to Sync`}>
+      {outbox.map((entry) => (
+        <MenuBarExtra.Submenu
+          key={entry.id}
+          title={`${entry.issueKey} · ${formatDuration(entry.params.timeSpentSeconds)} · ${entry.params.startDate}`}
+          icon={entry.needsAttention ? { source: Icon.Warning, tintColor: "#DC2626" } : Icon.Upload}
+        >
+          {entry.needsAttention && entry.lastError && (
+            <MenuBarExtra.Item title={`Not retried automatically: ${entry.lastError}`} icon={Icon.Warning} />
+          )}
+          <MenuBarExtra.Item title="Retry Now" icon={Icon.ArrowClockwise} onAction={() => retryNow(entry.id)} />
+          <MenuBarExtra.Item title="Discard" icon={Icon.Trash} onAction={() => discard(entry.id)} />
+        </MenuBarExtra.Submenu>
+      ))}
+      <MenuBarExtra.Item title="Retry All Now" icon={Icon.ArrowClockwise} onAction={() => retryNow()} />
+    </MenuBarExtra.Section>
+  );
+
   if (!timer) {
-    return null;
+    if (outbox.length === 0) {
+      // Stay loaded while the launch retry is still sending, or Raycast may unload the command mid-send
+      return retrying ? <MenuBarExtra isLoading /> : null;
+    }
+
+    return (
+      <MenuBarExtra
+        icon={{ source: Icon.Upload, tintColor: "#F59E0B" }}
+        title={`${outbox.length} pending`}
+        tooltip="Worklogs waiting to be sent to Tempo"
+        isLoading={loading || retrying}
+      >
+        {outboxSection}
+        <MenuBarExtra.Item
+          title="Start Timer"
+          icon={Icon.Play}
+          onAction={async () => {
+            await launchCommand({ name: "start-timer", type: LaunchType.UserInitiated });
+          }}
+        />
+      </MenuBarExtra>
+    );
   }
 
   let iconColor = "#22C55E";
@@ -98,7 +142,7 @@ export default function Command() {
     statusText = "Getting long";
   }
 
-  const title = `⏱ ${formattedDuration}`;
+  const title = `⏱ ${formattedDuration}${outbox.length > 0 ? ` · ${outbox.length} pending` : ""}`;
   const tooltip = `Active Timer: ${timer.issueKey}
 Elapsed: ${formattedDuration}
 Status: ${statusText}
@@ -111,7 +155,7 @@ Click to stop timer`;
       icon={{ source: Icon.Clock, tintColor: iconColor }}
       title={title}
       tooltip={tooltip}
-      isLoading={loading}
+      isLoading={loading || retrying}
     >
       <MenuBarExtra.Item
         title={`${statusEmoji} ${timer.issueKey} - ${formattedDuration}`}
@@ -124,6 +168,8 @@ Click to stop timer`;
         <MenuBarExtra.Item title={`⚠️ Timer has been running for ${formattedDuration}`} icon={Icon.ExclamationMark} />
       )}
 
+      {outboxSection}
+
       <MenuBarExtra.Section>
         <MenuBarExtra.Item
           title="Stop & Log Time"
@@ -155,8 +201,7 @@ Click to stop timer`;
           title="Open Issue in Browser"
           icon={Icon.Globe}
           onAction={async () => {
-            const { jiraBaseUrl } = getPreferenceValues<{ jiraBaseUrl: string }>();
-            await open(`https://${jiraBaseUrl}/browse/${timer.issueKey}`);
+            await open(jiraIssueUrl(timer.issueKey));
           }}
         />
       </MenuBarExtra.Section>
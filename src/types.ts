@@ -1,23 +1,22 @@
+import type { ParsedTempoWorklog } from "./api/tempo-schemas";
+
 export type JiraIssue = {
   id: string;
   key: string;
   fields: {
     summary: string;
-    issuetype?: { name: string };
-    project?: { key: string };
+    issuetype?: { name: string; subtask?: boolean };
+    status?: { name: string; statusCategory?: { key: string } };
+    assignee?: { displayName: string } | null;
+    priority?: { name: string } | null;
+    // Sub-tasks' parent task, or (on Cloud) the epic a standard issue belongs to
+    parent?: { key: string; fields?: { summary?: string; issuetype?: { name: string } } };
+    project?: { id?: string; key: string };
   };
 };
 
-export type TempoWorklog = {
-  tempoWorklogId: number;
-  jiraWorklogId?: number;
-  issue: { id: number; key?: string };
-  timeSpentSeconds: number;
-  startDate: string; // YYYY-MM-DD
-  startTime: string; // HH:mm:ss
-  description?: string;
-  author?: { accountId: string };
-};
+/** Validated by `tempoWorklogSchema`; includes work attributes, billable seconds and audit fields */
+export type TempoWorklog = ParsedTempoWorklog;
 
 export type DayWorklogs = {
   date: string;
@@ -0,0 +1,43 @@
+import { getPreferenceValues } from "@raycast/api";
+import type { TempoWorklog } from "../types";
+
+interface Preferences {
+  nonBillableProjects?: string;
+}
+
+function nonBillableProjectKeys(): string[] {
+  const { nonBillableProjects = "" } = getPreferenceValues<Preferences>();
+  return nonBillableProjects
+    .split(/[\s,]+/)
+    .map((k) => k.trim().toUpperCase())
+    .filter(Boolean);
+}
+
+/** Whether the issue belongs to a project listed in the Non-Billable Projects preference */
+export function isNonBillableIssue(issueKey?: string): boolean {
+  if (!issueKey) return false;
+  const projectKey = issueKey.split("-")[0].toUpperCase();
+  return nonBillableProjectKeys().includes(projectKey);
+}
+
+/** Billable seconds to log when none were entered: all of it, or nothing for non-billable projects */
+export function defaultBillableSeconds(issueKey: string | undefined, timeSpentSeconds: number): number {
+  return isNonBillableIssue(issueKey) ? 0 : timeSpentSeconds;
+}
+
+/** Worklogs created before billable time was tracked count as fully billable */
+export function getBillableSeconds(worklog: TempoWorklog): number {
+  return worklog.billableSeconds ?? worklog.timeSpentSeconds ?? 0;
+}
+
+export function sumBillableSeconds(worklogs: TempoWorklog[]): { billableSeconds: number; nonBillableSeconds: number } {
+  let billableSeconds = 0;
+  let nonBillableSeconds = 0;
+  for (const worklog of worklogs) {
+    const spent = worklog.timeSpentSeconds || 0;
+    const billable = Math.min(getBillableSeconds(worklog), spent);
+    billableSeconds += billable;
+    nonBillableSeconds += spent - billable;
+  }
+  return { billableSeconds, nonBillableSeconds };
+}
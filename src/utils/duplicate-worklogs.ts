@@ -0,0 +1,126 @@
+import { Alert, confirmAlert, Icon } from "@raycast/api";
+import { getMyWorklogs, type WorklogParams } from "../api/tempo";
+import type { TempoWorklog } from "../types";
+import { formatDuration, formatTimeOfDay } from "./time-formatting";
+import { getWorklogIssueLabel } from "./worklogs";
+
+/** Durations within this many seconds, or within DURATION_TOLERANCE of each other, count as similar */
+const DURATION_SLACK_SECONDS = 15 * 60;
+const DURATION_TOLERANCE = 0.2;
+/** Entries created in this session are compared too, so a double submit is caught before Tempo lists it */
+const RECENT_WINDOW_MS = 2 * 60 * 1000;
+
+interface Candidate {
+  issueId: string;
+  startDate: string;
+  startTime?: string;
+  timeSpentSeconds: number;
+}
+
+const recentEntries: { entry: Candidate; at: number }[] = [];
+
+function toRecentCandidate(params: WorklogParams): Candidate {
+  return {
+    issueId: String(params.issueId),
+    startDate: params.startDate,
+    startTime: params.startTime,
+    timeSpentSeconds: params.timeSpentSeconds,
+  };
+}
+
+function pruneRecentEntries(now: number) {
+  while (recentEntries.length > 0 && now - recentEntries[0].at > RECENT_WINDOW_MS) {
+    recentEntries.shift();
+  }
+}
+
+function toSeconds(time: string): number {
+  const [h, m, s] = time.split(":").map(Number);
+  return h * 3600 + (m || 0) * 60 + (s || 0);
+}
+
+function overlaps(a: Candidate, b: Candidate): boolean {
+  // Without a start time we can't tell the entries apart, so treat them as overlapping
+  if (!a.startTime || !b.startTime) return true;
+  const aStart = toSeconds(a.startTime);
+  const bStart = toSeconds(b.startTime);
+  return aStart < bStart + Math.max(b.timeSpentSeconds, 60) && bStart < aStart + Math.max(a.timeSpentSeconds, 60);
+}
+
+function similarDuration(a: number, b: number): boolean {
+  const diff = Math.abs(a - b);
+  return diff <= DURATION_SLACK_SECONDS || diff <= Math.max(a, b) * DURATION_TOLERANCE;
+}
+
+function isLikelyDuplicate(a: Candidate, b: Candidate): boolean {
+  return (
+    a.issueId === b.issueId &&
+    a.startDate === b.startDate &&
+    overlaps(a, b) &&
+    similarDuration(a.timeSpentSeconds, b.timeSpentSeconds)
+  );
+}
+
+function toCandidate(worklog: TempoWorklog): Candidate {
+  return {
+    issueId: String(worklog.issue.id),
+    startDate: worklog.startDate,
+    startTime: worklog.startTime,
+    timeSpentSeconds: worklog.timeSpentSeconds,
+  };
+}
+
+export function findLikelyDuplicate(params: WorklogParams, worklogs: TempoWorklog[]): TempoWorklog | undefined {
+  const candidate: Candidate = { ...params, issueId: String(params.issueId) };
+  return worklogs.find((w) => isLikelyDuplicate(candidate, toCandidate(w)));
+}
+
+function describeWorklog(worklog: TempoWorklog): string {
+  const time = formatTimeOfDay(worklog.startTime);
+  return (
+    `${getWorklogIssueLabel(worklog)}: ${formatDuration(worklog.timeSpentSeconds)}` +
+    `${time ? ` at ${time}` : ""} on ${worklog.startDate}` +
+    `${worklog.description ? `\n"${worklog.description}"` : ""}`
+  );
+}
+
+/**
+ * Compare a worklog about to be created with the user's worklogs on the same date and ask for
+ * confirmation if one looks like the same entry. Resolves to false when the user cancels.
+ */
+export async function confirmNotDuplicate(params: WorklogParams): Promise<boolean> {
+  const candidate = toRecentCandidate(params);
+  pruneRecentEntries(Date.now());
+
+  let existing: TempoWorklog[] = [];
+  try {
+    existing = await getMyWorklogs(params.startDate, params.startDate);
+  } catch {
+    // Not being able to check shouldn't stop the user from logging time
+  }
+
+  const duplicate = findLikelyDuplicate(params, existing);
+  const recent = recentEntries.find((r) => isLikelyDuplicate(candidate, r.entry));
+
+  if (duplicate || recent) {
+    const confirmed = await confirmAlert({
+      title: "Possible Duplicate Worklog",
+      message: duplicate
+        ? `A similar worklog already exists:\n\n${describeWorklog(duplicate)}\n\nLog this entry anyway?`
+        : "You just logged a similar entry for this issue. Log this entry anyway?",
+      icon: Icon.CopyClipboard,
+      primaryAction: { title: "Log Anyway", style: Alert.ActionStyle.Default },
+      dismissAction: { title: "Cancel", style: Alert.ActionStyle.Cancel },
+    });
+    if (!confirmed) return false;
+  }
+
+  return true;
+}
+
+/** Remember a worklog that was just created, so confirmNotDuplicate can catch a double submit */
+export function recordCreatedWorklog(params: WorklogParams) {
+  const now = Date.now();
+  pruneRecentEntries(now);
+  recentEntries.push({ entry: toRecentCandidate(params), at: now });
+}
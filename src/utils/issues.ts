@@ -0,0 +1,88 @@
+import { Color, getPreferenceValues, Icon, type Image, type List } from "@raycast/api";
+import type { JiraIssue } from "../types";
+
+/** What the issue pickers show for an issue */
+export type IssueLite = {
+  key: string;
+  summary: string;
+  issueType?: string;
+  status?: string;
+  /** Jira's status category: "new", "indeterminate" or "done" */
+  statusCategory?: string;
+  assignee?: string;
+  priority?: string;
+  parent?: { key: string; summary?: string };
+};
+
+export function toIssueLite(issue: JiraIssue): IssueLite {
+  const { fields } = issue;
+  return {
+    key: issue.key,
+    summary: fields.summary,
+    issueType: fields.issuetype?.name,
+    status: fields.status?.name,
+    statusCategory: fields.status?.statusCategory?.key,
+    assignee: fields.assignee?.displayName,
+    priority: fields.priority?.name,
+    parent: fields.parent ? { key: fields.parent.key, summary: fields.parent.fields?.summary } : undefined,
+  };
+}
+
+const STATUS_CATEGORY_COLORS: Record<string, Color> = {
+  new: Color.SecondaryText,
+  indeterminate: Color.Blue,
+  done: Color.Green,
+};
+
+export function getStatusColor(statusCategory?: string): Color | undefined {
+  return statusCategory ? STATUS_CATEGORY_COLORS[statusCategory] : undefined;
+}
+
+/** Icon for the issue type, tinted by status category so finished issues stand out */
+export function getIssueTypeIcon(issue: Pick<IssueLite, "issueType" | "statusCategory">): Image.ImageLike {
+  const type = issue.issueType?.toLowerCase() ?? "";
+  const source = type.includes("bug")
+    ? Icon.Bug
+    : type.includes("epic")
+      ? Icon.Bolt
+      : type.includes("story")
+        ? Icon.Bookmark
+        : type.includes("sub")
+          ? Icon.Dot
+          : Icon.CheckCircle;
+  const tintColor = getStatusColor(issue.statusCategory);
+  return tintColor ? { source, tintColor } : source;
+}
+
+/** Status, assignee, priority and parent accessories for issue list items */
+export function getIssueAccessories(issue: IssueLite): List.Item.Accessory[] {
+  return [
+    ...(issue.parent ? [{ tag: issue.parent.key, icon: Icon.Layers, tooltip: issue.parent.summary }] : []),
+    ...(issue.priority ? [{ text: issue.priority, icon: Icon.Flag, tooltip: "Priority" }] : []),
+    ...(issue.assignee ? [{ icon: Icon.Person, text: issue.assignee, tooltip: "Assignee" }] : []),
+    ...(issue.status
+      ? [{ tag: { value: issue.status, color: getStatusColor(issue.statusCategory) ?? Color.SecondaryText } }]
+      : []),
+  ];
+}
+
+/** Whether the issue pickers group issues under their parent epic or task */
+export function isGroupingIssuesByParent(): boolean {
+  return getPreferenceValues<{ groupIssuesByParent?: boolean }>().groupIssuesByParent === true;
+}
+
+/** Issues grouped by parent in first-seen order; issues without a parent come last under an empty key */
+export function groupIssuesByParent<T extends IssueLite>(
+  issues: T[],
+): Array<{ parent?: IssueLite["parent"]; issues: T[] }> {
+  const groups = new Map<string, { parent?: IssueLite["parent"]; issues: T[] }>();
+  for (const issue of issues) {
+    const id = issue.parent?.key ?? "";
+    const group = groups.get(id) ?? { parent: issue.parent, issues: [] };
+    group.issues.push(issue);
+    groups.set(id, group);
+  }
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => (a === "" ? 1 : 0) - (b === "" ? 1 : 0))
+    .map(([, group]) => group);
+}
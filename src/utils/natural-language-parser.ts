@@ -67,12 +67,13 @@ function extractDescription(input: string): string {
   return text;
 }
 
-export function parseTimeEntry(input: string): ParsedTimeEntry | null {
+/** Parse free text into an entry; `fallbackIssueKey` is used when the text itself names no issue */
+export function parseTimeEntry(input: string, fallbackIssueKey?: string): ParsedTimeEntry | null {
   if (!input || input.trim().length === 0) {
     return null;
   }
 
-  const issueKey = extractIssueKey(input);
+  const issueKey = extractIssueKey(input) ?? fallbackIssueKey ?? null;
   if (!issueKey) {
     return null;
   }
@@ -0,0 +1,70 @@
+import { getPreferenceValues } from "@raycast/api";
+import { addDays, eachDayOfInterval, format, parseISO, startOfWeek, subDays, subWeeks } from "date-fns";
+import { getTimesheetPeriods } from "../api/tempo-periods";
+
+export interface NavigablePeriod {
+  from: string;
+  to: string;
+  /** Whether the range is a Tempo timesheet period or a calendar week from the week-start preference */
+  source: "tempo" | "week";
+}
+
+type WeekStartDay = "monday" | "sunday" | "saturday";
+
+const WEEK_STARTS_ON: Record<WeekStartDay, 0 | 1 | 6> = { sunday: 0, monday: 1, saturday: 6 };
+
+/** Long enough to cover a few monthly periods */
+const PERIOD_LOOKBACK_DAYS = 120;
+
+export function getWeekStartsOn(): 0 | 1 | 6 {
+  const { weekStartDay = "monday" } = getPreferenceValues<{ weekStartDay?: WeekStartDay }>();
+  return WEEK_STARTS_ON[weekStartDay] ?? 1;
+}
+
+function calendarWeek(date: Date): NavigablePeriod {
+  const from = startOfWeek(date, { weekStartsOn: getWeekStartsOn() });
+  return { from: format(from, "yyyy-MM-dd"), to: format(addDays(from, 6), "yyyy-MM-dd"), source: "week" };
+}
+
+/**
+ * The current period and up to `count - 1` before it, newest first. Uses Tempo's timesheet periods when
+ * they're configured, otherwise calendar weeks starting on the preferred day.
+ */
+export async function getRecentPeriods(count: number): Promise<NavigablePeriod[]> {
+  const today = new Date();
+  const todayStr = format(today, "yyyy-MM-dd");
+
+  try {
+    const periods = await getTimesheetPeriods(format(subDays(today, PERIOD_LOOKBACK_DAYS), "yyyy-MM-dd"), todayStr);
+    const recent = periods
+      .filter((p) => p.from <= todayStr)
+      .reverse()
+      .slice(0, count);
+    if (recent.length > 0) {
+      return recent.map((p) => ({ ...p, source: "tempo" }));
+    }
+  } catch {
+    // Instances without periods (or without access to them) navigate by calendar weeks instead
+  }
+
+  return Array.from({ length: count }, (_, i) => calendarWeek(subWeeks(today, i)));
+}
+
+export function periodDates(period: NavigablePeriod): string[] {
+  return eachDayOfInterval({ start: parseISO(period.from), end: parseISO(period.to) }).map((d) =>
+    format(d, "yyyy-MM-dd"),
+  );
+}
+
+/** "This Period", "Last Week", "2 Periods Ago", ... for the period `index` steps back from today's */
+export function formatPeriodLabel(period: NavigablePeriod, index: number): string {
+  const unit = period.source === "tempo" ? "Period" : "Week";
+  if (index === 0) return `This ${unit}`;
+  if (index === 1) return `Last ${unit}`;
+  return `${index} ${unit}s Ago`;
+}
+
+/** "Oct 5 – Oct 18, 2026" */
+export function formatPeriodRange(period: NavigablePeriod): string {
+  return `${format(parseISO(period.from), "MMM d")} – ${format(parseISO(period.to), "MMM d, yyyy")}`;
+}
@@ -0,0 +1,45 @@
+import type { UserScheduleDay } from "../api/tempo-schedules";
+import { formatDuration, formatDurationDetailed } from "./time-formatting";
+
+export function isDayOff(day?: UserScheduleDay): boolean {
+  return day !== undefined && day.type !== "WORKING_DAY";
+}
+
+/** "Holiday: Christmas Day", "Non-working day" or undefined for a regular working day */
+export function describeScheduleDay(day?: UserScheduleDay): string | undefined {
+  if (!day) return undefined;
+  if (day.type === "HOLIDAY" || day.type === "HOLIDAY_AND_NON_WORKING_DAY") {
+    return day.holidayName ? `Holiday: ${day.holidayName}` : "Holiday";
+  }
+  if (day.type === "NON_WORKING_DAY") return "Non-working day";
+  return undefined;
+}
+
+/** "5h logged / 8h required · 3h left", or just the logged total when no schedule is known */
+export function formatLoggedVsRequired(loggedSeconds: number, requiredSeconds?: number): string {
+  if (requiredSeconds === undefined) {
+    return loggedSeconds > 0 ? `${formatDurationDetailed(loggedSeconds)} logged` : "No work logged";
+  }
+
+  if (requiredSeconds === 0) {
+    return loggedSeconds > 0 ? `${formatDuration(loggedSeconds)} logged · nothing required` : "Nothing required";
+  }
+
+  const delta = requiredSeconds - loggedSeconds;
+  const status =
+    delta > 0 ? `${formatDuration(delta)} left` : delta < 0 ? `${formatDuration(-delta)} over` : "complete";
+  return `${formatDuration(loggedSeconds)} logged / ${formatDuration(requiredSeconds)} required · ${status}`;
+}
+
+/** Section subtitle for a single day: the logged vs required summary, prefixed with any holiday marker */
+export function formatDayScheduleSubtitle(loggedSeconds: number, day?: UserScheduleDay): string {
+  const summary = formatLoggedVsRequired(loggedSeconds, day?.requiredSeconds);
+  const label = describeScheduleDay(day);
+  return label ? `${label} · ${summary}` : summary;
+}
+
+/** Total required seconds for the given dates, or undefined if the schedule doesn't cover them */
+export function sumRequiredSeconds(schedule: Map<string, UserScheduleDay>, dates: string[]): number | undefined {
+  if (dates.length === 0 || dates.some((d) => !schedule.has(d))) return undefined;
+  return dates.reduce((acc, d) => acc + (schedule.get(d)?.requiredSeconds ?? 0), 0);
+}
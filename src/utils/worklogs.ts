@@ -0,0 +1,33 @@
+import type { List } from "@raycast/api";
+import type { TempoWorklog } from "../types";
+import type { WorkType } from "../api/tempo";
+import { formatDurationDetailed, formatTimeOfDay } from "./time-formatting";
+
+export const WORK_TYPE_ATTRIBUTE_KEY = "_WorkType_";
+
+export function getWorklogAttributeValue(worklog: TempoWorklog, key: string): string | undefined {
+  return worklog.attributes?.values.find((a) => a.key === key)?.value;
+}
+
+export function getWorklogIssueLabel(worklog: TempoWorklog): string {
+  return worklog.issue?.key || `Issue #${worklog.issue?.id}`;
+}
+
+/** The work type's display name, falling back to the raw value when the option is unknown */
+export function getWorklogWorkTypeLabel(worklog: TempoWorklog, workTypes: WorkType[]): string | undefined {
+  const value = getWorklogAttributeValue(worklog, WORK_TYPE_ATTRIBUTE_KEY);
+  if (!value) return undefined;
+  return workTypes.find((t) => t.value === value)?.label ?? value;
+}
+
+/** Work type, duration, start time and last-updated accessories shared by the worklog lists */
+export function getWorklogAccessories(worklog: TempoWorklog, workTypes: WorkType[]): List.Item.Accessory[] {
+  const workType = getWorklogWorkTypeLabel(worklog, workTypes);
+  const timeOfDay = formatTimeOfDay(worklog.startTime);
+  return [
+    ...(workType ? [{ tag: workType }] : []),
+    { text: formatDurationDetailed(worklog.timeSpentSeconds) },
+    { text: timeOfDay ? `@ ${timeOfDay}` : "" },
+    ...(worklog.updatedAt ? [{ date: new Date(worklog.updatedAt), tooltip: "Last updated" }] : []),
+  ];
+}
@@ -1,65 +1,107 @@
-import { Action, ActionPanel, Icon, List } from "@raycast/api";
-import { useEffect, useState } from "react";
-import { getMyWorklogs } from "./api/tempo";
+import { Action, ActionPanel, Alert, Color, confirmAlert, Icon, Keyboard, List } from "@raycast/api";
+import { useCallback } from "react";
 import { tempoDayUrl, tempoWeekUrl } from "./utils/tempo";
-import { TempoWorklog } from "./types";
-import { formatDurationDetailed, formatTimeOfDay } from "./utils/time-formatting";
+import { formatDuration } from "./utils/time-formatting";
+import { getWorklogAccessories } from "./utils/worklogs";
 import { handleError } from "./utils/error-handling";
+import { EditWorklogForm } from "./components/EditWorklogForm";
+import { DeleteWorklogAction } from "./components/DeleteWorklogAction";
+import { useUserSchedule } from "./hooks/useUserSchedule";
+import { formatDayScheduleSubtitle } from "./utils/schedule";
+import { useOutbox } from "./hooks/useOutbox";
+import { useWorklogs } from "./hooks/useWorklogs";
+import { useWorkTypes } from "./hooks/useWorkTypes";
+import type { OutboxEntry } from "./state/outbox";
 
 export default function Command() {
-  const [items, setItems] = useState<TempoWorklog[]>([]);
-  const [loading, setLoading] = useState(true);
   const today = new Date().toISOString().substring(0, 10);
+  const { worklogs: items, loading, revalidate } = useWorklogs(today, today);
+  const { workTypes } = useWorkTypes();
+  const { schedule } = useUserSchedule(today, today);
+  const { entries: outbox, retryNow, discard } = useOutbox();
 
-  useEffect(() => {
-    let mounted = true;
+  const load = useCallback(async () => {
+    try {
+      await revalidate();
+    } catch (error) {
+      await handleError(error, "Failed to load worklogs");
+    }
+  }, [revalidate]);
 
-    const load = async () => {
-      try {
-        const wl = await getMyWorklogs(today, today);
-        if (mounted) {
-          setItems(wl);
-        }
-      } catch (error) {
-        if (mounted) {
-          await handleError(error, "Failed to load worklogs");
-        }
-      } finally {
-        if (mounted) {
-          setLoading(false);
-        }
-      }
-    };
+  const retryPending = async (id?: string) => {
+    if ((await retryNow(id)) > 0) {
+      await load();
+    }
+  };
 
-    load();
-
-    return () => {
-      mounted = false;
-    };
-  }, [today]);
+  const discardPending = async (entry: OutboxEntry) => {
+    const confirmed = await confirmAlert({
+      title: "Discard Pending Worklog?",
+      message: `${formatDuration(entry.params.timeSpentSeconds)} on ${entry.issueKey} (${entry.params.startDate}) was never sent to Tempo and will be lost.`,
+      icon: Icon.Trash,
+      primaryAction: { title: "Discard", style: Alert.ActionStyle.Destructive },
+    });
+    if (confirmed) {
+      await discard(entry.id);
+    }
+  };
 
   const totalSeconds = items.reduce((acc, w) => acc + (w.timeSpentSeconds || 0), 0);
-  const totalFormatted = formatDurationDetailed(totalSeconds);
-
   return (
     <List isLoading={loading} searchBarPlaceholder="Tempo worklogs for today">
-      <List.Section
-        title="Today's Work Logs"
-        subtitle={items.length > 0 ? `Total: ${totalFormatted}` : "No work logged"}
-      >
+      {outbox.length > 0 && (
+        <List.Section title="Waiting to Sync" subtitle={`${outbox.length} pending`}>
+          {outbox.map((entry) => (
+            <List.Item
+              key={entry.id}
+              icon={
+                entry.needsAttention
+                  ? { source: Icon.Warning, tintColor: Color.Red }
+                  : { source: Icon.Upload, tintColor: Color.Orange }
+              }
+              title={entry.issueKey}
+              subtitle={entry.params.description || "No description"}
+              accessories={[
+                { text: formatDuration(entry.params.timeSpentSeconds) },
+                { text: entry.params.startDate },
+                ...(entry.lastError ? [{ icon: Icon.Warning, tooltip: entry.lastError }] : []),
+              ]}
+              actions={
+                <ActionPanel>
+                  <Action title="Retry Now" icon={Icon.ArrowClockwise} onAction={() => retryPending(entry.id)} />
+                  <Action title="Retry All Now" icon={Icon.ArrowClockwise} onAction={() => retryPending()} />
+                  <Action
+                    title="Discard"
+                    icon={Icon.Trash}
+                    style={Action.Style.Destructive}
+                    shortcut={Keyboard.Shortcut.Common.Remove}
+                    onAction={() => discardPending(entry)}
+                  />
+                </ActionPanel>
+              }
+            />
+          ))}
+        </List.Section>
+      )}
+      <List.Section title="Today's Work Logs" subtitle={formatDayScheduleSubtitle(totalSeconds, schedule.get(today))}>
         {items.map((w) => {
           const dateForUrl = (w?.startDate as string) || today;
-          const logFormatted = formatDurationDetailed(w.timeSpentSeconds);
-          const timeOfDay = formatTimeOfDay(w.startTime);
           return (
             <List.Item
               key={w.tempoWorklogId}
               icon={Icon.Checkmark}
               title={w.issue?.key ? w.issue.key : `Issue ${w.issue?.id}`}
               subtitle={w.description || "No description"}
-              accessories={[{ text: logFormatted }, { text: timeOfDay ? `@ ${timeOfDay}` : "" }]}
+              accessories={getWorklogAccessories(w, workTypes)}
               actions={
                 <ActionPanel>
+                  <Action.Push
+                    title="Edit Worklog"
+                    icon={Icon.Pencil}
+                    target={<EditWorklogForm worklog={w} onSuccess={load} />}
+                    shortcut={Keyboard.Shortcut.Common.Edit}
+                  />
+                  <DeleteWorklogAction worklog={w} onDeleted={load} />
                   <Action.OpenInBrowser
                     title="Open Tempo Day View"
                     url={tempoDayUrl(dateForUrl)}